@@ -4,10 +4,38 @@
  * Main orchestrator for browser instrumentation and trace capture
  */
 
-import { chromium, Browser, Page, BrowserContext } from "playwright";
-import { TraceRecord } from "./types";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  chromium,
+  firefox,
+  webkit,
+  devices,
+  Browser,
+  BrowserType,
+  Page,
+  BrowserContext,
+  CDPSession,
+  Request,
+  Response,
+} from "playwright";
+import {
+  BrowserName,
+  DeviceEmulation,
+  CaptureVariant,
+  NetworkBody,
+  NetworkRequest,
+  ScreenshotSet,
+  TraceRecord,
+  VideoPosition,
+} from "./types";
 import { TraceWriter } from "./trace-writer";
 import { getInstrumentationScript } from "./instrumentation";
+import { CaptureConfig } from "./config";
+import { Redactor, createRedactors, redactHar } from "./redaction";
+import { formatKeyLabel } from "./keys";
+import { describeEmulation } from "./format";
+import { UIPatternRecognizer } from "./ui-patterns";
 
 export interface CaptureOptions {
   url: string;
@@ -15,8 +43,67 @@ export interface CaptureOptions {
   headless?: boolean;
   timeout?: number;
   waitForIdle?: boolean;
+  sampleFrames?: boolean;
+  scripted?: boolean;
+  /** Save start/mid/after element screenshots for interactions (default: true) */
+  screenshots?: boolean;
+  /** Measure frames, long tasks, layout shifts and (Chromium) style/layout work per effect (default: true) */
+  performance?: boolean;
+  /** Record a video of every page, with each trace's offset into it */
+  video?: boolean;
+  /** Record all network traffic to this HAR file */
+  harRecord?: string;
+  /** Serve all network traffic from this HAR file; unmatched requests are aborted */
+  harReplay?: string;
+  /** Capture tuning; overrides are matched against `url` */
+  config?: CaptureConfig;
+  /** Browser engine (default: chromium) */
+  browser?: BrowserName;
+  /** Playwright device preset, e.g. "iPhone 13"; the options below override it */
+  device?: string;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  hasTouch?: boolean;
+  isMobile?: boolean;
+  userAgent?: string;
+  /** Browser or emulated media (reduced motion, color scheme, width) for a variant sub-session */
+  variant?: CaptureVariant;
+  parentSession?: string;
 }
 
+const DEFAULT_EMULATION: DeviceEmulation = {
+  viewport: { width: 1920, height: 1080 },
+  deviceScaleFactor: 1,
+  isMobile: false,
+  hasTouch: false,
+  userAgent:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+};
+
+interface ScreenshotRequest {
+  id: string;
+  /** Delay of the after shot; the mid shot is taken halfway */
+  afterMs: number;
+  /** Element box (plus padding) in top-level viewport coordinates */
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+// Request and response bodies are kept for JSON only, up to this size
+const MAX_BODY_SIZE = 64 * 1024;
+const JSON_MIME = /[/+]json\b/;
+
+const SCREENSHOTS_DIR = "screenshots";
+const VIDEO_DIR = "video";
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
+// Desktop presets whose user agent matches each engine when no device is given
+const DESKTOP_PRESETS: Record<BrowserName, string | null> = {
+  chromium: null,
+  firefox: "Desktop Firefox",
+  webkit: "Desktop Safari",
+};
+
 export class CaptureEngine {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
@@ -24,6 +111,17 @@ export class CaptureEngine {
   private writer: TraceWriter | null = null;
   private sessionId: string;
   private isRecording: boolean = false;
+  private instrumentationScript: string = "";
+  private pageIds = new Map<Page, string>();
+  private screenshotPlans = new Map<string, ScreenshotSet>();
+  private pendingScreenshots = new Set<Promise<void>>();
+  private videoStarts = new Map<Page, number>();
+  private requestCount = 0;
+  private redactorFor: (url: string) => Redactor = createRedactors({});
+  private harRecord: string | null = null;
+  private startUrl = "";
+  private patterns = new UIPatternRecognizer();
+  private cdpSessions = new Map<Page, Promise<CDPSession>>();
 
   constructor() {
     this.sessionId = this.generateSessionId();
@@ -43,36 +141,116 @@ export class CaptureEngine {
     console.log(`🚀 Starting capture session: ${this.sessionId}`);
     console.log(`📍 Target URL: ${options.url}`);
 
+    // Resolve emulation first so an unknown device fails before the browser starts
+    const browserName = options.variant?.browser ?? options.browser ?? "chromium";
+    const emulation = this.resolveEmulation(options, browserName);
+    console.log(`🖥️  Browser: ${browserName}`);
+    console.log(`📱 Emulating: ${describeEmulation(emulation)}`);
+    if (options.variant) {
+      console.log(`🌗 Variant: ${options.variant.name}`);
+    }
+
+    const harRecord = options.harRecord && path.resolve(options.harRecord);
+    const harReplay = options.harReplay && path.resolve(options.harReplay);
+    if (harRecord && harReplay) {
+      throw new Error("Cannot record and replay a HAR in the same capture");
+    }
+    if (harReplay && !fs.existsSync(harReplay)) {
+      throw new Error(`HAR file not found: ${harReplay}`);
+    }
+
     // Initialize trace writer
     const outputDir = options.outputDir || "./captures";
     this.writer = new TraceWriter(outputDir, this.sessionId, options.url);
+    this.writer.setBrowser(browserName);
+    this.writer.setEmulation(emulation);
+    if (options.variant) {
+      this.writer.setVariant(options.variant, options.parentSession);
+    }
+    if (harRecord) {
+      fs.mkdirSync(path.dirname(harRecord), { recursive: true });
+      this.writer.setHar("record", harRecord);
+      this.harRecord = harRecord;
+      console.log(`🗄️  Recording network to: ${harRecord}`);
+    } else if (harReplay) {
+      this.writer.setHar("replay", harReplay);
+      console.log(`🗄️  Replaying network from: ${harReplay} (offline)`);
+    }
 
     // Launch browser
-    this.browser = await chromium.launch({
+    this.browser = await BROWSER_TYPES[browserName].launch({
       headless: options.headless ?? false,
-      args: ["--disable-blink-features=AutomationControlled"],
+      args:
+        browserName === "chromium" ? ["--disable-blink-features=AutomationControlled"] : [],
     });
 
     // Create context
     this.context = await this.browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      userAgent:
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      viewport: emulation.viewport,
+      deviceScaleFactor: emulation.deviceScaleFactor,
+      isMobile: emulation.isMobile,
+      hasTouch: emulation.hasTouch,
+      userAgent: emulation.userAgent,
+      colorScheme: options.variant?.colorScheme,
+      reducedMotion: options.variant?.reducedMotion,
+      // Full-size frames so video pixels line up with recorded coordinates
+      recordVideo: options.video
+        ? { dir: path.join(this.writer.getOutputDir(), VIDEO_DIR), size: emulation.viewport }
+        : undefined,
+      recordHar: harRecord ? { path: harRecord, content: "embed" } : undefined,
+      // Service workers would answer requests before the HAR routes see them
+      serviceWorkers: harReplay ? "block" : "allow",
     });
 
-    // Create page
-    this.page = await this.context.newPage();
+    if (harReplay) {
+      await this.context.routeFromHAR(harReplay, { notFound: "abort" });
+    }
 
-    // Setup trace callback
-    await this.page.exposeFunction("__captureCallback", (trace: any) => {
-      this.handleTrace(trace);
+    // Setup trace callback and instrumentation for every page in the
+    // context, so popups and new tabs are recorded too
+    await this.context.exposeBinding("__captureCallback", (source, trace: any) => {
+      this.handleTrace(trace, source.page);
     });
 
-    // Inject instrumentation
-    await this.page.addInitScript(getInstrumentationScript());
+    const screenshots = options.screenshots ?? true;
+    if (screenshots) {
+      await this.context.exposeBinding(
+        "__captureScreenshots",
+        (source, request: ScreenshotRequest) => {
+          this.scheduleScreenshots(source.page, request);
+        },
+      );
+    }
+
+    const performance = options.performance ?? true;
+    if (performance && browserName === "chromium") {
+      await this.context.exposeBinding("__captureMetrics", (source) =>
+        this.getRenderingMetrics(source.page),
+      );
+    }
 
-    // Setup network monitoring
-    this.setupNetworkMonitoring();
+    // Overrides are resolved per page URL, here and in the injected script
+    this.redactorFor = createRedactors(options.config ?? {});
+    this.startUrl = options.url;
+
+    this.instrumentationScript = getInstrumentationScript({
+      sampleFrames: options.sampleFrames,
+      screenshots,
+      performance,
+      config: options.config,
+    });
+    await this.context.addInitScript(this.instrumentationScript);
+
+    this.context.on("page", (page) => {
+      this.trackPage(page);
+    });
+
+    // Record from the first document on, so its open and load navigations
+    // and any route changes while it settles are kept
+    this.isRecording = true;
+
+    // Create page
+    this.page = await this.context.newPage();
 
     // Navigate to URL
     console.log("🌐 Loading page...");
@@ -104,70 +282,222 @@ export class CaptureEngine {
     if (!isInstrumented) {
       console.log("⚠️  Warning: Instrumentation may not be working properly");
       console.log("   Trying to reinject...");
-      await this.page.evaluate(getInstrumentationScript());
+      await this.page.evaluate(this.instrumentationScript);
     }
 
-    this.isRecording = true;
     console.log("✅ Page loaded. Recording interactions...");
-    console.log("💡 Interact with the page. Press Ctrl+C to stop.");
-    console.log("   Watch for indicators: 👆 (click) 👉 (hover) ⌨️ (input)");
+    if (!options.scripted) {
+      console.log("💡 Interact with the page. Press Ctrl+C to stop.");
+      console.log("   Watch for indicators: 👆 (click) 👉 (hover) ⌨️ (input)");
+    }
   }
 
   /**
-   * Setup network request monitoring
+   * Combine the device preset (or the desktop default) with explicit overrides
+   */
+  private resolveEmulation(options: CaptureOptions, browserName: BrowserName): DeviceEmulation {
+    let base: DeviceEmulation = DEFAULT_EMULATION;
+
+    const desktop = DESKTOP_PRESETS[browserName];
+    if (desktop) {
+      base = { ...base, userAgent: devices[desktop].userAgent };
+    }
+
+    if (options.device) {
+      const preset = devices[options.device];
+      if (!preset) {
+        throw new Error(
+          `Unknown device "${options.device}" (run "capture-anim devices" to list presets)`,
+        );
+      }
+      base = {
+        device: options.device,
+        viewport: preset.viewport,
+        deviceScaleFactor: preset.deviceScaleFactor,
+        isMobile: preset.isMobile,
+        hasTouch: preset.hasTouch,
+        userAgent: preset.userAgent,
+      };
+    }
+
+    const viewport = options.viewport ?? base.viewport;
+
+    // Playwright cannot emulate a mobile viewport in Firefox
+    let isMobile = options.isMobile ?? base.isMobile;
+    if (isMobile && browserName === "firefox") {
+      console.log("⚠️  Firefox does not support mobile emulation; using a desktop viewport");
+      isMobile = false;
+    }
+
+    return {
+      device: base.device,
+      viewport: options.variant?.width ? { ...viewport, width: options.variant.width } : viewport,
+      deviceScaleFactor: options.deviceScaleFactor ?? base.deviceScaleFactor,
+      isMobile,
+      hasTouch: options.hasTouch ?? base.hasTouch,
+      userAgent: options.userAgent ?? base.userAgent,
+    };
+  }
+
+  /**
+   * Assign a page ID and watch the page for navigations and API calls
    */
-  private setupNetworkMonitoring(): void {
-    if (!this.page) return;
+  private trackPage(page: Page): void {
+    const pageId = `page-${this.pageIds.size + 1}`;
+    this.pageIds.set(page, pageId);
+    let currentUrl = page.url();
+
+    // Recording starts with the page
+    if (page.video()) {
+      this.videoStarts.set(page, Date.now());
+    }
 
-    const pendingRequests = new Map<string, number>();
+    // Popups are announced once their opener is known
+    page
+      .opener()
+      .then((opener) => {
+        this.handleTrace(
+          {
+            ts: Date.now(),
+            type: "navigation",
+            navigation: {
+              kind: "open",
+              to: page.url(),
+              opener: opener ? this.pageIds.get(opener) : undefined,
+            },
+          },
+          page,
+        );
+      })
+      .catch(() => {
+        // Page closed before its opener resolved
+      });
 
-    this.page.on("request", (request: any) => {
-      const url = request.url();
+    // Full document loads; same-document navigations are reported by the page
+    page.on("domcontentloaded", () => {
+      const from = currentUrl;
+      currentUrl = page.url();
+      this.handleTrace(
+        { ts: Date.now(), type: "navigation", navigation: { kind: "load", from, to: currentUrl } },
+        page,
+      );
+    });
+
+    page.on("close", () => {
+      this.handleTrace(
+        { ts: Date.now(), type: "navigation", navigation: { kind: "close", to: currentUrl } },
+        page,
+      );
+    });
+
+    this.setupNetworkMonitoring(page);
+  }
+
+  /**
+   * Setup network request monitoring
+   */
+  private setupNetworkMonitoring(page: Page): void {
+    // Keyed by request so concurrent calls to the same URL stay apart
+    const pendingRequests = new Map<Request, { id: string; startedAt: number }>();
+
+    page.on("request", (request) => {
       // Only track XHR and Fetch
       if (
         request.resourceType() === "xhr" ||
         request.resourceType() === "fetch"
       ) {
-        pendingRequests.set(url, Date.now());
+        pendingRequests.set(request, {
+          id: `req-${++this.requestCount}`,
+          startedAt: Date.now(),
+        });
       }
     });
 
-    this.page.on("response", (response: any) => {
-      const url = response.url();
-      const startTime = pendingRequests.get(url);
-
-      if (startTime) {
-        const timing = Date.now() - startTime;
-        pendingRequests.delete(url);
-
-        // Only track API calls (not static assets)
-        if (
-          url.includes("/api/") ||
-          url.includes("/graphql") ||
-          response.request().resourceType() === "xhr" ||
-          response.request().resourceType() === "fetch"
-        ) {
-          this.handleTrace({
-            ts: Date.now(),
-            type: "network",
-            network: [
-              {
-                url,
-                method: response.request().method(),
-                status: response.status(),
-                timing,
-              },
-            ],
-          });
-        }
-      }
+    const finish = async (request: Request, failure?: string) => {
+      const pending = pendingRequests.get(request);
+      if (!pending) return;
+      pendingRequests.delete(request);
+
+      const finishedAt = Date.now();
+      const response = failure ? null : await request.response().catch(() => null);
+      const entry = await this.describeRequest(request, response, pending, finishedAt);
+
+      this.handleTrace(
+        {
+          ts: finishedAt,
+          type: "network",
+          network: [failure ? { ...entry, status: 0, failure } : entry],
+        },
+        page,
+      );
+    };
+
+    page.on("requestfinished", (request) => {
+      finish(request);
+    });
+
+    page.on("requestfailed", (request) => {
+      finish(request, request.failure()?.errorText || "failed");
     });
   }
 
+  /**
+   * Identity, headers and JSON bodies of a finished request
+   */
+  private async describeRequest(
+    request: Request,
+    response: Response | null,
+    pending: { id: string; startedAt: number },
+    finishedAt: number,
+  ): Promise<NetworkRequest> {
+    const entry: NetworkRequest = {
+      id: pending.id,
+      url: request.url(),
+      method: request.method(),
+      status: response?.status() ?? 0,
+      timing: finishedAt - pending.startedAt,
+      startedAt: pending.startedAt,
+      resourceType: request.resourceType(),
+      requestHeaders: await request.allHeaders().catch(() => request.headers()),
+    };
+    entry.requestBody = this.toBody(
+      entry.requestHeaders!["content-type"] || "",
+      request.postDataBuffer(),
+    );
+
+    if (response) {
+      entry.statusText = response.statusText();
+      entry.responseHeaders = await response.allHeaders().catch(() => response.headers());
+      entry.responseBody = this.toBody(
+        entry.responseHeaders["content-type"] || "",
+        // Redirects and some aborted responses have no body
+        await response.body().catch(() => null),
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Keep JSON bodies up to MAX_BODY_SIZE; other types only record their size
+   */
+  private toBody(mimeType: string, data: Buffer | null): NetworkBody | undefined {
+    if (!data || data.length === 0) return undefined;
+
+    const body: NetworkBody = { mimeType, size: data.length };
+    if (JSON_MIME.test(mimeType)) {
+      body.text = data.subarray(0, MAX_BODY_SIZE).toString("utf-8");
+      if (data.length > MAX_BODY_SIZE) {
+        body.truncated = true;
+      }
+    }
+    return body;
+  }
+
   /**
    * Handle incoming trace
    */
-  private handleTrace(trace: any): void {
+  private handleTrace(trace: any, page: Page): void {
     if (!this.isRecording || !this.writer) return;
 
     // Log test traces to verify communication
@@ -176,17 +506,36 @@ export class CaptureEngine {
       return;
     }
 
+    // The page only knows the id of the screenshots it asked for
+    const { screenshotId, ...data } = trace;
+    const screenshots = screenshotId ? this.screenshotPlans.get(screenshotId) : undefined;
+    this.screenshotPlans.delete(screenshotId);
+
     // Enrich trace with session info
     const enrichedTrace: TraceRecord = {
-      ...trace,
+      ...data,
+      screenshots,
       sessionId: this.sessionId,
-      url: this.page?.url() || "",
-      viewport: {
-        width: 1920,
-        height: 1080,
-      },
+      url: page.url(),
+      pageId: this.pageIds.get(page),
+      video: this.getVideoPosition(page, trace.ts),
+      // The page reports its own viewport (it changes on rotation or resize)
+      viewport: trace.viewport || page.viewportSize() || { width: 0, height: 0 },
     };
 
+    // The page masks what needs the DOM; attributes, headers and bodies are scrubbed here
+    this.redactorFor(enrichedTrace.url).redactTrace(enrichedTrace);
+
+    // A recognized component is a more useful intent than "content-update";
+    // infinite scroll needs the request or scroll of a chain, so not here
+    if (enrichedTrace.mutation) {
+      const pattern = this.patterns.recognize({ diffs: enrichedTrace.mutation.changes });
+      if (pattern) {
+        enrichedTrace.mutation.pattern = pattern;
+        enrichedTrace.mutation.intent = `${pattern.pattern}-${pattern.action}`;
+      }
+    }
+
     // Write to file
     this.writer.appendTrace(enrichedTrace);
 
@@ -194,18 +543,163 @@ export class CaptureEngine {
     this.logTrace(enrichedTrace);
   }
 
+  /**
+   * Where a timestamp falls in the page's recording (undefined without video)
+   */
+  private getVideoPosition(page: Page, ts: number): VideoPosition | undefined {
+    const startedAt = this.videoStarts.get(page);
+    if (startedAt === undefined) return undefined;
+
+    return {
+      file: `${VIDEO_DIR}/${this.pageIds.get(page)}.webm`,
+      offset: Math.max(0, ts - startedAt),
+    };
+  }
+
+  /**
+   * Give each page's recording the name its traces refer to
+   *
+   * Playwright only finishes writing a video once its page closes, so this
+   * runs after the browser is closed.
+   */
+  private async saveVideos(): Promise<void> {
+    for (const page of this.videoStarts.keys()) {
+      const target = path.join(
+        this.writer!.getOutputDir(),
+        VIDEO_DIR,
+        `${this.pageIds.get(page)}.webm`,
+      );
+      try {
+        await fs.promises.rename(await page.video()!.path(), target);
+        console.log(`   🎬 Video: ${target}`);
+      } catch (error: any) {
+        console.log(`   ⚠️  Could not save video for ${this.pageIds.get(page)}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Page-wide style and layout counters from the CDP Performance domain;
+   * they count all work in the page, so deltas over an effect's window are
+   * an upper bound on what the effect cost
+   */
+  private async getRenderingMetrics(page: Page): Promise<Record<string, number> | null> {
+    let session = this.cdpSessions.get(page);
+    if (!session) {
+      session = this.context!.newCDPSession(page).then(async (cdp) => {
+        await cdp.send("Performance.enable");
+        return cdp;
+      });
+      this.cdpSessions.set(page, session);
+    }
+
+    try {
+      const { metrics } = await (await session).send("Performance.getMetrics");
+      return Object.fromEntries(metrics.map(({ name, value }) => [name, value]));
+    } catch (error) {
+      return null; // Page closed
+    }
+  }
+
+  /**
+   * Take start, mid and after shots of an element's box for an interaction;
+   * the request arrives after the page's handlers ran, so there is no true
+   * "before" shot
+   */
+  private scheduleScreenshots(page: Page, request: ScreenshotRequest): void {
+    if (!this.isRecording || !this.writer) return;
+
+    const plan: ScreenshotSet = {};
+    const phases: Array<[keyof ScreenshotSet, number]> = [
+      ["start", 0],
+      ["mid", Math.round(request.afterMs / 2)],
+      ["after", request.afterMs],
+    ];
+
+    for (const [phase, delay] of phases) {
+      const file = `${SCREENSHOTS_DIR}/${request.id}-${phase}.png`;
+      plan[phase] = file;
+
+      const shot: Promise<void> = new Promise((resolve) => setTimeout(resolve, delay))
+        .then(() => this.takeScreenshot(page, request.rect, file))
+        .finally(() => this.pendingScreenshots.delete(shot));
+      this.pendingScreenshots.add(shot);
+    }
+
+    this.screenshotPlans.set(request.id, plan);
+  }
+
+  /**
+   * Save a screenshot clipped to the part of the box inside the viewport
+   */
+  private async takeScreenshot(
+    page: Page,
+    rect: ScreenshotRequest["rect"],
+    file: string,
+  ): Promise<void> {
+    const viewport = page.viewportSize();
+    const x = Math.max(0, rect.x);
+    const y = Math.max(0, rect.y);
+    const right = Math.min(viewport?.width ?? Infinity, rect.x + rect.width);
+    const bottom = Math.min(viewport?.height ?? Infinity, rect.y + rect.height);
+    if (right - x < 1 || bottom - y < 1) return;
+
+    try {
+      await page.screenshot({
+        path: path.join(this.writer!.getOutputDir(), file),
+        clip: { x, y, width: right - x, height: bottom - y },
+      });
+    } catch (error) {
+      // Page closed or navigated away; the trace drops the missing file
+    }
+  }
+
+  /**
+   * Delete shots of interactions the page never reported (e.g. hovers that
+   * changed nothing)
+   */
+  private discardUnclaimedScreenshots(): void {
+    for (const plan of this.screenshotPlans.values()) {
+      for (const file of Object.values(plan)) {
+        fs.rmSync(path.join(this.writer!.getOutputDir(), file), { force: true });
+      }
+    }
+    this.screenshotPlans.clear();
+  }
+
   /**
    * Log trace to console
    */
   private logTrace(trace: TraceRecord): void {
     const time = new Date(trace.ts).toLocaleTimeString();
 
-    if (trace.type === "interaction" && trace.event) {
+    if (trace.type === "interaction" && trace.event?.scroll) {
+      const { container, x, y } = trace.event.scroll;
+      const linked = trace.scrollSamples?.length
+        ? ` (${trace.scrollSamples.length} scroll-linked changes)`
+        : "";
+      console.log(`📜 [${time}] scroll ${container} → ${x},${y}${linked}`);
+    } else if (trace.type === "interaction" && trace.event) {
       const emoji = this.getEventEmoji(trace.event.kind);
+      const key = trace.event.key
+        ? ` ${formatKeyLabel(trace.event.key, trace.event.modifiers)}`
+        : "";
       console.log(
-        `${emoji} [${time}] ${trace.event.kind} on ${trace.event.selector}`,
+        `${emoji} [${time}] ${trace.event.kind}${key} on ${trace.event.selector}`,
       );
 
+      if (trace.event.gesture) {
+        const gesture = trace.event.gesture;
+        console.log(
+          `   └─ ${gesture.type} ${gesture.direction}, ${gesture.distance}px in ${gesture.duration}ms` +
+            (trace.gestureResponse ? `, moved ${trace.gestureResponse.selector}` : ""),
+        );
+      }
+
+      if (trace.keyEffects?.length) {
+        console.log(`   └─ Changed: ${trace.keyEffects.map((e) => e.selector).join(", ")}`);
+      }
+
       // Log style changes if significant
       if (trace.before && trace.after) {
         const changes = Object.keys(trace.after.style.computed).filter(
@@ -222,11 +716,39 @@ export class CaptureEngine {
       console.log(
         `🔄 [${time}] ${trace.mutation.intent} (${trace.mutation.affectedElements} elements)`,
       );
+    } else if (trace.type === "animation" && trace.animation) {
+      const { kind, name, selector, timing } = trace.animation;
+      console.log(
+        `🎞️  [${time}] ${kind} ${name || "(unnamed)"} on ${selector} (${timing.duration}ms)`,
+      );
+    } else if (trace.type === "intersection" && trace.intersection) {
+      console.log(
+        `👁️  [${time}] ${trace.intersection.selector} entered viewport at y=${trace.intersection.scroll.y}`,
+      );
+    } else if (trace.type === "curve" && trace.curve) {
+      console.log(
+        `📈 [${time}] sampled ${trace.curve.samples.length} frames on ${trace.curve.selector} (${trace.curve.properties.join(", ")})`,
+      );
+    } else if (trace.type === "rules" && trace.rules) {
+      const { selector, rules, keyframes } = trace.rules;
+      console.log(
+        `🎨 [${time}] ${rules.length} CSS rules, ${keyframes.length} @keyframes for ${selector}`,
+      );
+    } else if (trace.type === "performance" && trace.performance) {
+      const { trigger, frames, droppedFrames, longestFrame, longTasks } = trace.performance;
+      console.log(
+        `⏱️  [${time}] ${trigger.event} on ${trigger.selector}: ${frames} frames, ${droppedFrames} dropped, longest ${longestFrame}ms, ${longTasks} long tasks`,
+      );
+    } else if (trace.type === "navigation" && trace.navigation) {
+      const { kind, from, to, opener } = trace.navigation;
+      const origin = kind === "open" && opener ? ` from ${opener}` : from ? ` ${from} →` : "";
+      console.log(`🧭 [${time}] ${trace.pageId} ${kind}${origin} ${to}`);
     } else if (trace.type === "network" && trace.network) {
       for (const req of trace.network) {
         const status = req.status >= 200 && req.status < 300 ? "✓" : "✗";
+        const result = req.failure ? `${req.failure}, ` : "";
         console.log(
-          `🌐 [${time}] ${status} ${req.method} ${req.url} (${req.timing}ms)`,
+          `🌐 [${time}] ${status} ${req.method} ${req.url} (${result}${req.timing}ms)`,
         );
       }
     }
@@ -245,6 +767,9 @@ export class CaptureEngine {
       blur: "💨",
       scroll: "📜",
       keypress: "🔤",
+      keydown: "🔤",
+      keyup: "🔡",
+      gesture: "🖐️",
     };
     return emojis[kind] || "🔘";
   }
@@ -269,10 +794,10 @@ export class CaptureEngine {
     console.log("   Please wait while we finalize the traces...");
     this.isRecording = false;
 
-    // Stop capture in page
-    if (this.page) {
+    // Stop capture in every open page
+    for (const page of this.pageIds.keys()) {
       try {
-        await this.page.evaluate(() => {
+        await page.evaluate(() => {
           if (window.__stopCapture) {
             window.__stopCapture();
           }
@@ -282,6 +807,12 @@ export class CaptureEngine {
       }
     }
 
+    // Let scheduled screenshots finish before the browser closes
+    if (this.writer) {
+      await Promise.all([...this.pendingScreenshots]);
+      this.discardUnclaimedScreenshots();
+    }
+
     // Finalize traces
     console.log("   📝 Processing captured interactions...");
     if (this.writer) {
@@ -292,11 +823,21 @@ export class CaptureEngine {
       await new Promise((resolve) => setTimeout(resolve, 500));
     }
 
-    // Close browser
+    // Close browser; closing the context first writes a recorded HAR
     console.log("   🔒 Closing browser...");
+    if (this.context) {
+      await this.context.close();
+    }
     if (this.browser) {
       await this.browser.close();
     }
+    if (this.harRecord) {
+      // The browser records headers and bodies as sent
+      await redactHar(this.harRecord, this.redactorFor(this.startUrl));
+    }
+    if (this.writer && this.videoStarts.size > 0) {
+      await this.saveVideos();
+    }
 
     const outputDir = this.writer?.getOutputDir() || "";
     console.log(`\n✅ Session complete!`);
@@ -309,6 +850,13 @@ export class CaptureEngine {
     return outputDir;
   }
 
+  /**
+   * Get the page being recorded (null before start)
+   */
+  getPage(): Page | null {
+    return this.page;
+  }
+
   /**
    * Get current session ID
    */
@@ -322,6 +870,7 @@ declare global {
   interface Window {
     __captureCallback: (trace: any) => void;
     __stopCapture: () => void;
+    __captureScreenshots: (request: any) => void;
     __mutationObserver: MutationObserver;
   }
 }
@@ -7,7 +7,24 @@
 import { Command } from "commander";
 import * as path from "path";
 import * as fs from "fs";
-import { CaptureEngine } from "./capture-engine";
+import { CaptureEngine, CaptureOptions } from "./capture-engine";
+import { Flow, FlowRunner, loadFlow } from "./flow-runner";
+import {
+  SessionReplayer,
+  formatReplayReport,
+  interactionsToFlow,
+  loadSession,
+  resolveReplayHar,
+} from "./replay";
+import { BROWSERS, VariantRunner, formatVariantReport, parseVariants } from "./variants";
+import { VideoClipper } from "./video-clip";
+import { buildHar } from "./har";
+import { BrowserName, CaptureVariant, UIPattern } from "./types";
+import { loadConfig } from "./config";
+import { createRedactors, redactSession } from "./redaction";
+import { PATTERN_GUIDANCE } from "./ui-patterns";
+import { describeEmulation, formatKeyframe } from "./format";
+import { devices } from "playwright";
 
 const program = new Command();
 
@@ -30,7 +47,33 @@ program
     "0",
   )
   .option("--headless", "Run browser in headless mode", false)
+  .option("-b, --browser <name>", "Browser engine: chromium, firefox or webkit", "chromium")
+  .option("-c, --config <file>", "Capture config file (default: ./capture.config.json if present)")
   .option("--wait-idle", "Wait for network idle before starting", false)
+  .option(
+    "--sample-frames",
+    "Sample animated properties every frame and fit easing curves",
+    false,
+  )
+  .option("--no-screenshots", "Skip start/mid/after element screenshots of interactions")
+  .option("--no-performance", "Skip frame, long task and layout shift measurement of effects")
+  .option("--video", "Record a video of the session, with each trace's offset into it", false)
+  .option("--har-record <file>", "Record all network traffic to a HAR file")
+  .option("--har-replay <file>", "Serve all network traffic from a HAR file (offline)")
+  .option(
+    "-s, --script <file>",
+    "Drive the page with a flow file (.json, .js or .ts) instead of manual interaction",
+  )
+  .option("--device <name>", 'Emulate a Playwright device preset (e.g. "iPhone 13")')
+  .option("--viewport <WxH>", "Viewport size, e.g. 390x844 (overrides the device)")
+  .option("--scale <factor>", "Device scale factor (overrides the device)")
+  .option("--touch", "Enable touch events")
+  .option("--mobile", "Emulate a mobile browser (meta viewport, overlay scrollbars)")
+  .option("--user-agent <ua>", "User agent string (overrides the device)")
+  .option(
+    "--variants <list>",
+    "Re-run the flow in other browsers or under media variants, e.g. firefox,webkit,reduced-motion,dark,375 (requires --script)",
+  )
   .action(async (url: string, options: any) => {
     try {
       // Validate URL
@@ -39,6 +82,35 @@ program
         process.exit(1);
       }
 
+      if (!BROWSERS.includes(options.browser)) {
+        console.error(`❌ Error: --browser must be one of ${BROWSERS.join(", ")}`);
+        process.exit(1);
+      }
+
+      const viewport = options.viewport ? parseViewport(options.viewport) : undefined;
+      const deviceScaleFactor = options.scale ? parseFloat(options.scale) : undefined;
+      if (deviceScaleFactor !== undefined && !(deviceScaleFactor > 0)) {
+        console.error("❌ Error: --scale must be a positive number");
+        process.exit(1);
+      }
+
+      let variants: CaptureVariant[] = [];
+      if (options.variants) {
+        if (!options.script) {
+          console.error("❌ Error: --variants needs a --script flow to re-run");
+          process.exit(1);
+        }
+        variants = parseVariants(options.variants);
+      }
+
+      // Load the config and flow up front so a bad file fails before the browser starts
+      const config = loadConfig(options.config);
+
+      let flow: Flow | null = null;
+      if (options.script) {
+        flow = await loadFlow(options.script);
+      }
+
       const engine = new CaptureEngine();
 
       // Track if we're stopping
@@ -86,13 +158,59 @@ program
       });
 
       // Start capture
-      await engine.start({
+      const captureOptions: CaptureOptions = {
         url,
         outputDir: options.output,
         headless: options.headless,
         timeout: parseInt(options.timeout),
         waitForIdle: options.waitIdle,
-      });
+        sampleFrames: options.sampleFrames,
+        screenshots: options.screenshots,
+        video: options.video,
+        performance: options.performance,
+        harRecord: options.harRecord,
+        harReplay: options.harReplay,
+        scripted: flow !== null,
+        config,
+        browser: options.browser as BrowserName,
+        device: options.device,
+        viewport,
+        deviceScaleFactor,
+        hasTouch: options.touch,
+        isMobile: options.mobile,
+        userAgent: options.userAgent,
+      };
+      await engine.start(captureOptions);
+
+      // Scripted flows stop on their own; a failing step still saves the capture
+      if (flow) {
+        let flowError: Error | null = null;
+        try {
+          await new FlowRunner(engine.getPage()!).run(flow);
+        } catch (error: any) {
+          flowError = error;
+        }
+
+        isStopping = true;
+        const sessionDir = await engine.stop();
+
+        if (flowError) {
+          console.error("❌ Flow failed:", flowError.message);
+          process.exit(1);
+        }
+
+        if (variants.length > 0) {
+          const report = await new VariantRunner().run(
+            sessionDir,
+            flow,
+            variants,
+            captureOptions,
+          );
+          console.log("");
+          console.log(formatVariantReport(report));
+        }
+        process.exit(0);
+      }
 
       // Wait for specified duration or until interrupted
       const duration = parseInt(options.duration);
@@ -117,10 +235,32 @@ program
         console.error("  - Check your internet connection");
       }
 
+      if (error.message.includes("Executable doesn't exist")) {
+        console.error("");
+        console.error(`💡 Install the browser: npx playwright install ${options.browser}`);
+      }
+
       process.exit(1);
     }
   });
 
+program
+  .command("devices")
+  .description("List device presets available to record --device")
+  .option("--filter <text>", "Only show devices whose name contains this text")
+  .action((options: any) => {
+    const filter = (options.filter || "").toLowerCase();
+    const names = Object.keys(devices).filter((name) => name.toLowerCase().includes(filter));
+
+    for (const name of names) {
+      const { viewport, deviceScaleFactor, isMobile, hasTouch } = devices[name];
+      const traits = [isMobile ? "mobile" : "desktop", ...(hasTouch ? ["touch"] : [])];
+      console.log(
+        `${name.padEnd(36)} ${viewport.width}x${viewport.height} @${deviceScaleFactor}x  ${traits.join(", ")}`,
+      );
+    }
+  });
+
 program
   .command("list")
   .description("List all captured sessions")
@@ -240,11 +380,168 @@ program
     }
   });
 
+program
+  .command("replay")
+  .description("Re-run a captured session and report animation regressions")
+  .argument("<session-dir>", "Session directory to replay")
+  .option("-o, --output <dir>", "Output directory for the replay capture", "./captures")
+  .option("-t, --timeout <ms>", "Page load timeout in milliseconds", "60000")
+  .option("--headed", "Show the browser while replaying", false)
+  .option("-c, --config <file>", "Capture config file (default: ./capture.config.json if present)")
+  .option("--har-replay <file>", "Serve the network from a HAR file (default: the session's HAR)")
+  .option("--live", "Use the live network even if the session has a HAR", false)
+  .option(
+    "--variants <list>",
+    "Also replay in other browsers or under media variants, e.g. firefox,reduced-motion,dark",
+  )
+  .action(async (sessionDir: string, options: any) => {
+    try {
+      if (!fs.existsSync(sessionDir)) {
+        console.error("❌ Error: Session directory not found");
+        console.error(`   Looking for: ${sessionDir}`);
+        process.exit(1);
+      }
+
+      const variants = options.variants ? parseVariants(options.variants) : [];
+      const config = loadConfig(options.config);
+
+      const report = await new SessionReplayer().replay(sessionDir, {
+        outputDir: options.output,
+        headless: !options.headed,
+        timeout: parseInt(options.timeout),
+        config,
+        harReplay: options.harReplay,
+        liveNetwork: options.live,
+      });
+
+      console.log("");
+      console.log(formatReplayReport(report));
+
+      // Variants are compared with the original capture and stored alongside it
+      if (variants.length > 0) {
+        const original = loadSession(sessionDir);
+        const variantReport = await new VariantRunner().run(
+          sessionDir,
+          interactionsToFlow(original.traces),
+          variants,
+          {
+            url: original.url,
+            headless: !options.headed,
+            timeout: parseInt(options.timeout),
+            config,
+            harReplay: resolveReplayHar(original, {
+              harReplay: options.harReplay,
+              liveNetwork: options.live,
+            }),
+            sampleFrames: original.traces.some((trace) => trace.type === "curve"),
+            browser: original.browser,
+            ...original.emulation,
+          },
+        );
+        console.log("");
+        console.log(formatVariantReport(variantReport));
+      }
+      process.exit(report.passed ? 0 : 1);
+    } catch (error: any) {
+      console.error("❌ Error:", error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("clip")
+  .description("Save a frame sequence around a trace from the session video")
+  .argument("<session-dir>", "Session directory (recorded with --video)")
+  .argument("<trace-index>", "Trace to clip (0-based line in traces.jsonl)")
+  .option("--before <ms>", "Time before the trace to start at", "500")
+  .option("--after <ms>", "Time after the trace to end at", "1500")
+  .option("--fps <n>", "Frames per second", "10")
+  .option("-o, --output <dir>", "Output directory (default: <session>/clips/trace-<index>)")
+  .action(async (sessionDir: string, traceIndex: string, options: any) => {
+    try {
+      if (!fs.existsSync(sessionDir)) {
+        console.error("❌ Error: Session directory not found");
+        console.error(`   Looking for: ${sessionDir}`);
+        process.exit(1);
+      }
+
+      const index = parseInt(traceIndex);
+      const fps = parseFloat(options.fps);
+      if (!(index >= 0)) {
+        console.error("❌ Error: <trace-index> must be a non-negative integer");
+        process.exit(1);
+      }
+      if (!(fps > 0)) {
+        console.error("❌ Error: --fps must be a positive number");
+        process.exit(1);
+      }
+
+      const clip = await new VideoClipper().clip(sessionDir, index, {
+        before: parseInt(options.before),
+        after: parseInt(options.after),
+        fps,
+        outputDir: options.output,
+      });
+
+      const first = clip.frames[0];
+      const last = clip.frames[clip.frames.length - 1];
+      console.log(`🎬 ${clip.frames.length} frames of ${clip.traceType} trace ${clip.traceIndex}`);
+      console.log(`   Video: ${clip.video} (${first.offset}ms → ${last.offset}ms)`);
+      console.log(`✅ Saved to: ${clip.dir}`);
+    } catch (error: any) {
+      console.error("❌ Error:", error.message);
+      if (error.message.includes("Executable doesn't exist")) {
+        console.error("");
+        console.error("💡 Clips are cut with Chromium: npx playwright install chromium");
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command("redact")
+  .description("Mask sensitive values in an existing session")
+  .argument("<session-dir>", "Session directory to scrub")
+  .option("-c, --config <file>", "Capture config file with redaction rules (default: ./capture.config.json if present)")
+  .action(async (sessionDir: string, options: any) => {
+    try {
+      if (!fs.existsSync(sessionDir)) {
+        console.error("❌ Error: Session directory not found");
+        console.error(`   Looking for: ${sessionDir}`);
+        process.exit(1);
+      }
+
+      const result = await redactSession(sessionDir, createRedactors(loadConfig(options.config)));
+
+      console.log(`🔒 Redacted ${result.traces} traces in ${result.sessions.length} session(s)`);
+      for (const dir of result.sessions) {
+        console.log(`   ${dir}`);
+      }
+      for (const file of result.hars) {
+        console.log(`🔒 Redacted recorded HAR: ${file}`);
+      }
+
+      // Files derived from the traces keep whatever they contained
+      const stale = ["export.json", "export.md", "ai-prompt.txt", "network.har"].filter((file) =>
+        fs.existsSync(path.join(sessionDir, file)),
+      );
+      if (stale.length > 0) {
+        console.log(`⚠️  Re-export ${stale.join(", ")}; they were generated before redaction`);
+      }
+      if (["screenshots", "video", "clips"].some((dir) => fs.existsSync(path.join(sessionDir, dir)))) {
+        console.log("⚠️  Screenshots and videos are not redacted; review or delete them before sharing");
+      }
+    } catch (error: any) {
+      console.error("❌ Error:", error.message);
+      process.exit(1);
+    }
+  });
+
 program
   .command("export")
   .description("Export session data in different formats")
   .argument("<session-dir>", "Session directory to export")
-  .option("-f, --format <format>", "Export format (json, md, prompt)", "json")
+  .option("-f, --format <format>", "Export format (json, md, prompt, har)", "json")
   .option("-o, --output <file>", "Output file")
   .action((sessionDir: string, options: any) => {
     try {
@@ -292,18 +589,26 @@ program
           defaultFilename = "export.json";
           break;
 
-        case "md":
-          output = generateMarkdownExport(data);
+        case "md": {
+          // Screenshot paths are relative to the session, images to the export file
+          const exportDir = options.output ? path.dirname(path.resolve(options.output)) : sessionDir;
+          output = generateMarkdownExport(data, path.relative(exportDir, sessionDir));
           defaultFilename = "export.md";
           break;
+        }
 
         case "prompt":
           output = generateAIPrompt(data);
           defaultFilename = "ai-prompt.txt";
           break;
 
+        case "har":
+          output = JSON.stringify(buildHar(loadSession(sessionDir)), null, 2);
+          defaultFilename = "network.har";
+          break;
+
         default:
-          console.error("❌ Error: Invalid format. Use json, md, or prompt");
+          console.error("❌ Error: Invalid format. Use json, md, prompt or har");
           process.exit(1);
       }
 
@@ -317,19 +622,43 @@ program
     }
   });
 
+/**
+ * Parse a "WIDTHxHEIGHT" viewport option
+ */
+function parseViewport(value: string): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid viewport "${value}" (expected WIDTHxHEIGHT, e.g. 390x844)`);
+  }
+  return { width: parseInt(match[1]), height: parseInt(match[2]) };
+}
+
 /**
  * Generate markdown export
  */
-function generateMarkdownExport(data: any): string {
+function generateMarkdownExport(data: any, sessionPath: string = ""): string {
   let md = `# Animation Capture Export\n\n`;
   md += `**Source**: ${data.session.url}\n`;
-  md += `**Duration**: ${(data.session.duration / 1000).toFixed(1)}s\n\n`;
+  md += `**Duration**: ${(data.session.duration / 1000).toFixed(1)}s\n`;
+  if (data.session.browser) {
+    md += `**Browser**: ${data.session.browser}\n`;
+  }
+  if (data.session.emulation) {
+    md += `**Device**: ${describeEmulation(data.session.emulation)}\n`;
+  }
+  if (data.session.variant) {
+    md += `**Variant**: ${data.session.variant.name}\n`;
+  }
+  md += `\n`;
 
   md += `## Animation Profiles (${data.animationProfiles.length})\n\n`;
 
   for (const profile of data.animationProfiles) {
     md += `### ${profile.name}\n\n`;
     md += `**Trigger**: \`${profile.trigger.event}\` on \`${profile.trigger.selector}\`\n\n`;
+    if (profile.pattern) {
+      md += `**Pattern**: ${profile.pattern.pattern} (${profile.pattern.action})\n\n`;
+    }
     md += `**Effect Type**: ${profile.effect.type}\n\n`;
     md += `**Properties**:\n`;
 
@@ -341,31 +670,222 @@ function generateMarkdownExport(data: any): string {
       md += `\n**Timing**:\n`;
       md += `- Duration: ${profile.effect.timing.duration}\n`;
       md += `- Easing: ${profile.effect.timing.easing || "ease"}\n`;
+      if (profile.effect.timing.iterations !== undefined) {
+        md += `- Iterations: ${profile.effect.timing.iterations}\n`;
+      }
+      if (profile.effect.timing.direction) {
+        md += `- Direction: ${profile.effect.timing.direction}\n`;
+      }
+      if (profile.effect.timing.fill) {
+        md += `- Fill: ${profile.effect.timing.fill}\n`;
+      }
+    }
+
+    if (profile.effect.fittedEasing) {
+      md += `\n**Fitted Easing**: \`${profile.effect.fittedEasing.easing}\` (${profile.effect.fittedEasing.kind}, RMSE ${profile.effect.fittedEasing.error})\n`;
+      if (profile.effect.fittedEasing.spring) {
+        const spring = profile.effect.fittedEasing.spring;
+        md += `- Spring: stiffness ${spring.stiffness}, damping ${spring.damping}, mass ${spring.mass}\n`;
+      }
+    }
+
+    if (profile.effect.scroll) {
+      const scroll = profile.effect.scroll;
+      md += `\n**Scroll** (${scroll.timeline ? `${scroll.timeline}-timeline` : "offset-driven"}, container \`${scroll.container}\`, axis ${scroll.axis}):\n`;
+      for (const frame of scroll.keyframes || []) {
+        md += `- ${frame.offset}px (${Math.round(frame.progress * 100)}%): \`${formatValues(frame.values)}\`\n`;
+      }
+    }
+
+    if (profile.effect.route) {
+      const route = profile.effect.route;
+      md += `\n**Route**: ${route.navigation} ${route.from ? `\`${route.from}\` → ` : ""}\`${route.to}\`\n`;
+    }
+
+    if (profile.effect.gesture) {
+      md += `\n**Gesture**: ${describeGesture(profile.effect.gesture)}\n`;
+    }
+
+    if (profile.effect.keyframes?.length) {
+      md += `\n**Keyframes**:\n`;
+      for (const frame of profile.effect.keyframes) {
+        md += `- \`${formatKeyframe(frame)}\`\n`;
+      }
+    }
+
+    if (profile.sourceRules) {
+      md += `\n**Source CSS**:\n\n\`\`\`css\n${formatSourceRules(profile.sourceRules)}\n\`\`\`\n`;
+    }
+
+    if (profile.performance) {
+      md += `\n**Performance**: ${describePerformance(profile.performance)}\n`;
     }
 
     md += `\n---\n\n`;
   }
 
+  if (data.effectChains?.length > 0) {
+    md += `## Effect Chains (${data.effectChains.length})\n\n`;
+
+    for (const chain of data.effectChains) {
+      md += `### ${chain.summary}\n\n`;
+      for (const step of chain.steps) {
+        md += `- +${step.offset}ms ${step.kind} \`${step.target}\`: ${step.description}\n`;
+      }
+      if (chain.omitted) {
+        md += `- … ${chain.omitted} more\n`;
+      }
+      md += `\n`;
+    }
+  }
+
+  const filmstrips = (data.interactionTraces || []).filter((trace: any) => trace.screenshots);
+  if (filmstrips.length > 0) {
+    md += `## Filmstrips (${filmstrips.length})\n\n`;
+
+    for (const trace of filmstrips) {
+      const time = ((trace.timestamp - Date.parse(data.metadata.capturedAt)) / 1000).toFixed(1);
+      md += `### ${trace.event.kind} on \`${trace.event.selector}\` (+${time}s)\n\n`;
+      md += `| start | mid | after |\n| --- | --- | --- |\n`;
+
+      const cells = ["start", "mid", "after"].map((phase) => {
+        const file = trace.screenshots[phase];
+        return file ? `![${phase}](${path.posix.join(sessionPath.split(path.sep).join("/"), file)})` : "";
+      });
+      md += `| ${cells.join(" | ")} |\n\n`;
+    }
+  }
+
   return md;
 }
 
+/**
+ * Format a property map as "opacity: 0.5; transform: ..."
+ */
+function formatValues(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([prop, value]) => `${prop}: ${value}`)
+    .join("; ");
+}
+
+/**
+ * Describe how a gesture-driven element moves, e.g. "swipe, snap-back along x; follows pointer at 1x; ..."
+ */
+function describeGesture(gesture: any): string {
+  const parts = [
+    `${gesture.type}, ${gesture.behavior} along ${gesture.axis}`,
+    `follows pointer at ${gesture.followRatio}x`,
+    `released at ${gesture.releaseOffset}px moving ${gesture.releaseVelocity}px/ms`,
+    `settles at ${gesture.finalOffset}px`,
+  ];
+  if (gesture.overshoot) parts.push(`overshoots by ${gesture.overshoot}px`);
+  if (gesture.dropTarget) parts.push(`dropped on \`${gesture.dropTarget}\``);
+  return parts.join("; ");
+}
+
+/**
+ * Summarize profile performance, e.g. "30 frames, 5 dropped (longest 80ms), ..."
+ */
+function describePerformance(performance: any): string {
+  const parts: string[] = [];
+  if (performance.samples > 0) {
+    parts.push(
+      `${performance.frames} frames, ${performance.droppedFrames} dropped (longest ${performance.longestFrame}ms)`,
+      `${performance.longTasks} long tasks`,
+      `layout shift ${performance.layoutShift}`,
+    );
+    if (performance.pageLayouts !== undefined) {
+      parts.push(
+        `page-wide ${performance.pageStyleRecalcs} style recalcs, ${performance.pageLayouts} layouts`,
+      );
+    }
+  }
+  if (performance.layoutProperties) {
+    parts.push(`⚠️ animates layout properties (${performance.layoutProperties.join(", ")})`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Render captured source rules and @keyframes as a stylesheet
+ */
+function formatSourceRules(sourceRules: any): string {
+  const blocks: string[] = [];
+
+  for (const rule of sourceRules.rules) {
+    let block = `${rule.selector} { ${rule.cssText} }`;
+    if (rule.media) {
+      block = `@media ${rule.media} {\n  ${block}\n}`;
+    }
+    if (rule.source !== "inline") {
+      block = `/* ${rule.source} */\n${block}`;
+    }
+    blocks.push(block);
+  }
+
+  for (const keyframes of sourceRules.keyframes) {
+    blocks.push(keyframes.cssText);
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Recognized components across profiles and effect chains, with the
+ * actions and elements seen for each
+ */
+function describePatterns(data: any): Array<{ pattern: string; actions: string[]; targets: string[] }> {
+  const patterns = new Map<string, { actions: Set<string>; targets: Set<string> }>();
+  const matches = [...data.animationProfiles, ...(data.effectChains || [])]
+    .map((entry: any) => entry.pattern)
+    .filter(Boolean);
+
+  for (const match of matches) {
+    if (!patterns.has(match.pattern)) {
+      patterns.set(match.pattern, { actions: new Set(), targets: new Set() });
+    }
+    patterns.get(match.pattern)!.actions.add(match.action);
+    patterns.get(match.pattern)!.targets.add(match.target);
+  }
+
+  return [...patterns].map(([pattern, { actions, targets }]) => ({
+    pattern,
+    actions: [...actions],
+    targets: [...targets],
+  }));
+}
+
 /**
  * Generate AI prompt
  */
 function generateAIPrompt(data: any): string {
   let prompt = `You are a frontend engineer.
 
-Given the following interaction traces from ${data.session.url}, generate minimal JavaScript that recreates the observed animations and behaviors.
+Given the following interaction traces from ${data.session.url}${data.session.emulation ? ` (captured on ${describeEmulation(data.session.emulation)})` : ""}, generate minimal JavaScript that recreates the observed animations and behaviors.
 
 Do not invent features. Prefer event listeners and class toggles. Use vanilla JS unless stated otherwise.
 
-## Animation Profiles
-
 `;
 
+  const patterns = describePatterns(data);
+  if (patterns.length > 0) {
+    prompt += `## UI Patterns\n\n`;
+    prompt += `These components were recognized from their markup, ARIA state and motion; build each as that component:\n\n`;
+    for (const { pattern, actions, targets } of patterns) {
+      prompt += `### ${pattern}\n\n`;
+      prompt += `Observed: ${actions.join(", ")} on ${targets.map((target) => `"${target}"`).join(", ")}\n`;
+      prompt += `${PATTERN_GUIDANCE[pattern as UIPattern]}\n\n`;
+    }
+  }
+
+  prompt += `## Animation Profiles\n\n`;
+
   for (const profile of data.animationProfiles) {
     prompt += `### ${profile.name}\n\n`;
     prompt += `Trigger: ${profile.trigger.event} on selector "${profile.trigger.selector}"\n`;
+    if (profile.pattern) {
+      prompt += `Pattern: ${profile.pattern.pattern} (${profile.pattern.action})\n`;
+    }
     prompt += `Effect: ${profile.effect.type}\n`;
     prompt += `Target: ${profile.effect.target}\n\n`;
     prompt += `Properties to animate:\n`;
@@ -381,11 +901,84 @@ Do not invent features. Prefer event listeners and class toggles. Use vanilla JS
       if (profile.effect.timing.delay) {
         prompt += `- Delay: ${profile.effect.timing.delay}\n`;
       }
+      if (profile.effect.timing.iterations !== undefined) {
+        prompt += `- Iterations: ${profile.effect.timing.iterations}\n`;
+      }
+      if (profile.effect.timing.direction) {
+        prompt += `- Direction: ${profile.effect.timing.direction}\n`;
+      }
+      if (profile.effect.timing.fill) {
+        prompt += `- Fill mode: ${profile.effect.timing.fill}\n`;
+      }
+    }
+
+    if (profile.effect.fittedEasing) {
+      const fit = profile.effect.fittedEasing;
+      prompt += `\nMeasured easing (fitted from per-frame samples): ${fit.easing}\n`;
+      if (fit.spring) {
+        prompt += `Spring physics: stiffness ${fit.spring.stiffness}, damping ${fit.spring.damping}, mass ${fit.spring.mass}\n`;
+      }
+    }
+
+    if (profile.effect.scroll) {
+      const scroll = profile.effect.scroll;
+      if (scroll.timeline) {
+        prompt += `\nDriven by a CSS ${scroll.timeline}() timeline on ${scroll.container} (axis ${scroll.axis}); keyframe offsets are scroll progress, not time.\n`;
+      } else {
+        prompt += `\nValues as a function of scroll position of ${scroll.container} (axis ${scroll.axis}):\n`;
+        for (const frame of scroll.keyframes || []) {
+          prompt += `- ${frame.offset}px (${Math.round(frame.progress * 100)}% of scroll range): ${formatValues(frame.values)}\n`;
+        }
+      }
+    }
+
+    if (profile.effect.route) {
+      const route = profile.effect.route;
+      prompt += `\nRoute transition (${route.navigation} navigation${route.from ? ` from ${route.from}` : ""} to ${route.to}); run it when the client-side route changes.\n`;
+    }
+
+    if (profile.effect.gesture) {
+      prompt += `\nPointer gesture (offsets in px along the ${profile.effect.gesture.axis} axis, velocity in px/ms): ${describeGesture(profile.effect.gesture)}\n`;
+    }
+
+    if (profile.effect.keyframes?.length) {
+      prompt += `\nKeyframes (offset: declarations):\n`;
+      for (const frame of profile.effect.keyframes) {
+        prompt += `- ${formatKeyframe(frame)}\n`;
+      }
+    }
+
+    if (profile.sourceRules) {
+      prompt += `\nAuthor CSS for the target (prefer these rules over the computed values above):\n\`\`\`css\n${formatSourceRules(profile.sourceRules)}\n\`\`\`\n`;
+    }
+
+    if (profile.performance?.layoutProperties) {
+      prompt += `\nThe original animates ${profile.performance.layoutProperties.join(", ")}, which forces layout every frame; recreate the motion with transform/opacity where the result looks the same.\n`;
     }
 
     prompt += `\n`;
   }
 
+  if (data.effectChains?.length > 0) {
+    prompt += `\n## Effect Chains\n\n`;
+    prompt += `What each interaction set off, in order (ms after the interaction); recreate the same sequence, e.g. show the loading state until the request resolves:\n\n`;
+    for (const chain of data.effectChains) {
+      prompt += `${chain.summary}\n`;
+      for (const step of chain.steps) {
+        prompt += `- +${step.offset}ms ${step.kind} ${step.target}: ${step.description}\n`;
+      }
+      prompt += `\n`;
+    }
+  }
+
+  if (data.attachments?.length > 0) {
+    prompt += `\n## Attached Screenshots\n\n`;
+    prompt += `Element screenshots as each interaction starts (its handlers have already run), midway through and after its effect (paths relative to the session directory):\n`;
+    for (const attachment of data.attachments) {
+      prompt += `- ${attachment.path}: ${attachment.phase} ${attachment.selector}\n`;
+    }
+  }
+
   prompt += `\n## Task
 
 Generate:
@@ -0,0 +1,312 @@
+/**
+ * Capture Configuration
+ *
+ * Tuning for what the capture considers meaningful (styles, attributes)
+ * and how long it waits for effects to settle. Settings come from a
+ * `capture.config.json` and drive both the Node-side engines and the
+ * injected script; `overrides` adjust them for matching URLs.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface CaptureSettings {
+  /** Computed style properties recorded in snapshots and style diffs */
+  meaningfulStyles: string[];
+  /** Attribute and class prefixes treated as framework noise */
+  ignoredAttributes: string[];
+  /** Attributes tried first, in order, when generating selectors */
+  preferredAttributes: string[];
+  /** Attributes whose changes are observed as mutations */
+  observedAttributes: string[];
+  /** Maximum depth of structural selector paths */
+  selectorMaxDepth: number;
+  /** Delay before the after-snapshot of an interaction (ms) */
+  settleDelay: number;
+  /** Quiet period before batched mutations are reported (ms) */
+  mutationDebounce: number;
+  /** Maximum structured diffs recorded per mutation batch */
+  mutationMaxDiffs: number;
+  /** Depth of descendants serialized for an added subtree */
+  subtreeMaxDepth: number;
+  /** Maximum elements serialized per added subtree */
+  subtreeMaxNodes: number;
+  /** Minimum spacing of recorded hovers (ms) */
+  hoverThrottle: number;
+  /** Elements whose values and text are masked, descendants included */
+  redactSelectors: string[];
+  /** Regular expressions masked in values, text, HTML and JSON bodies */
+  redactPatterns: string[];
+  /** Attributes whose values are masked on every element */
+  redactAttributes: string[];
+}
+
+export interface CaptureOverride extends Partial<CaptureSettings> {
+  /** URL pattern; `*` matches any run of characters */
+  match: string;
+}
+
+export interface CaptureConfig extends Partial<CaptureSettings> {
+  overrides?: CaptureOverride[];
+}
+
+/** An override as the injected script applies it to its document's URL */
+export interface PageOverride {
+  /** Regular expression source of the `match` pattern */
+  pattern: string;
+  settings: Partial<CaptureSettings>;
+}
+
+export const CONFIG_FILENAME = "capture.config.json";
+
+/** Replacement for redacted values */
+export const REDACTED = "[redacted]";
+
+export const DEFAULT_SETTINGS: CaptureSettings = {
+  meaningfulStyles: [
+    "display",
+    "visibility",
+    "opacity",
+    "transform",
+    "transition",
+    "animation",
+    "position",
+    "top",
+    "left",
+    "right",
+    "bottom",
+    "width",
+    "height",
+    "z-index",
+    "overflow",
+    "clip-path",
+    "filter",
+    "backdrop-filter",
+  ],
+  ignoredAttributes: [
+    "data-reactid",
+    "data-react-checksum",
+    "data-v-", // Vue
+    "data-svelte-",
+    "_ngcontent-", // Angular
+    "_nghost-",
+    "data-emotion-",
+    "data-styled-",
+    "ng-reflect-",
+  ],
+  preferredAttributes: [
+    "id",
+    "data-testid",
+    "data-test",
+    "data-id",
+    "name",
+    "aria-label",
+    "role",
+    "type",
+    "href",
+    "for",
+  ],
+  observedAttributes: [
+    "class",
+    "style",
+    "hidden",
+    "disabled",
+    "open",
+    "aria-expanded",
+    "aria-hidden",
+    "aria-selected",
+    "aria-current",
+  ],
+  selectorMaxDepth: 5,
+  settleDelay: 50,
+  mutationDebounce: 100,
+  mutationMaxDiffs: 20,
+  subtreeMaxDepth: 3,
+  subtreeMaxNodes: 50,
+  hoverThrottle: 200,
+  redactSelectors: [
+    'input[type="password"]',
+    '[autocomplete*="cc-"]',
+    '[autocomplete*="password"]',
+    '[autocomplete="one-time-code"]',
+    "[data-redact]",
+  ],
+  redactPatterns: [
+    "[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}", // Email addresses
+    "\\b(?:\\d[ -]?){12,18}\\d\\b", // Card numbers
+  ],
+  redactAttributes: [],
+};
+
+const LIST_SETTINGS = [
+  "meaningfulStyles",
+  "ignoredAttributes",
+  "preferredAttributes",
+  "observedAttributes",
+  "redactSelectors",
+  "redactPatterns",
+  "redactAttributes",
+] as const;
+
+const NUMBER_SETTINGS = [
+  "selectorMaxDepth",
+  "settleDelay",
+  "mutationDebounce",
+  "mutationMaxDiffs",
+  "subtreeMaxDepth",
+  "subtreeMaxNodes",
+  "hoverThrottle",
+] as const;
+
+/**
+ * Load a config file, or `capture.config.json` from the working directory
+ *
+ * An explicit file must exist; without one, a missing default file means
+ * the built-in settings apply.
+ */
+export function loadConfig(file?: string): CaptureConfig {
+  const resolved = path.resolve(file || CONFIG_FILENAME);
+  if (!fs.existsSync(resolved)) {
+    if (file) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(resolved, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Invalid capture config ${resolved}: ${error.message}`);
+  }
+
+  console.log(`⚙️  Using config: ${resolved}`);
+  return validateConfig(data);
+}
+
+/**
+ * Check the config shape, including every override
+ */
+export function validateConfig(data: unknown): CaptureConfig {
+  if (!isRecord(data)) {
+    throw new Error("Invalid capture config: expected an object");
+  }
+
+  validateSettings(data, "config", ["overrides"]);
+
+  if (data.overrides !== undefined) {
+    if (!Array.isArray(data.overrides)) {
+      throw new Error('Invalid capture config: "overrides" must be an array');
+    }
+
+    data.overrides.forEach((override: unknown, i: number) => {
+      const where = `override ${i + 1}`;
+      if (!isRecord(override) || typeof override.match !== "string") {
+        throw new Error(`Invalid capture config: ${where} needs a "match" URL pattern`);
+      }
+      validateSettings(override, where, ["match"]);
+    });
+  }
+
+  return data as CaptureConfig;
+}
+
+/**
+ * Settings for a URL: defaults, then the config, then matching overrides in order
+ */
+export function resolveSettings(config: CaptureConfig, url: string): CaptureSettings {
+  const { overrides = [], ...base } = config;
+  let settings: CaptureSettings = { ...DEFAULT_SETTINGS, ...base };
+
+  for (const { match, ...override } of overrides) {
+    if (matchesUrl(match, url)) {
+      settings = { ...settings, ...override };
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Settings for the injected script: the config without overrides, plus the
+ * overrides to resolve against the URL of each document it runs in (pages
+ * navigate away from the URL the capture started on)
+ */
+export function getPageSettings(config: CaptureConfig): {
+  settings: CaptureSettings;
+  overrides: PageOverride[];
+} {
+  const { overrides = [], ...base } = config;
+  return {
+    settings: { ...DEFAULT_SETTINGS, ...base },
+    overrides: overrides.map(({ match, ...settings }) => ({
+      pattern: urlPattern(match),
+      settings,
+    })),
+  };
+}
+
+function validateSettings(
+  data: Record<string, unknown>,
+  where: string,
+  extraKeys: string[],
+): void {
+  const known = [...LIST_SETTINGS, ...NUMBER_SETTINGS, ...extraKeys] as string[];
+
+  for (const key of Object.keys(data)) {
+    if (!known.includes(key)) {
+      throw new Error(
+        `Invalid capture config: unknown setting "${key}" in ${where} ` +
+          `(expected ${[...LIST_SETTINGS, ...NUMBER_SETTINGS].join(", ")})`,
+      );
+    }
+  }
+
+  for (const key of LIST_SETTINGS) {
+    const value = data[key];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) || value.some((item) => typeof item !== "string"))
+    ) {
+      throw new Error(`Invalid capture config: "${key}" in ${where} must be an array of strings`);
+    }
+  }
+
+  // Checked above to be strings
+  for (const pattern of (data.redactPatterns as string[] | undefined) || []) {
+    try {
+      new RegExp(pattern);
+    } catch (error: any) {
+      throw new Error(`Invalid capture config: bad pattern in "redactPatterns" in ${where}: ${error.message}`);
+    }
+  }
+
+  for (const key of NUMBER_SETTINGS) {
+    const value = data[key];
+    if (value !== undefined && (typeof value !== "number" || !(value >= 0))) {
+      throw new Error(`Invalid capture config: "${key}" in ${where} must be a non-negative number`);
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Match a URL against a pattern where `*` stands for any characters
+ */
+function matchesUrl(pattern: string, url: string): boolean {
+  return new RegExp(urlPattern(pattern)).test(url);
+}
+
+/**
+ * Regular expression source for a URL pattern
+ */
+function urlPattern(pattern: string): string {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return `^${source}$`;
+}
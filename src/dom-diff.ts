@@ -8,18 +8,25 @@
  * - Irrelevant style changes
  */
 
+import { DEFAULT_SETTINGS } from "./config";
+import { Redactor } from "./redaction";
+
 export interface DOMNode {
   tag: string;
   attributes: Record<string, string>;
   classes: string[];
   text?: string;
   children?: DOMNode[];
+  /** Child elements left out by the subtree limits */
+  truncated?: number;
 }
 
 export interface DOMDiff {
   type: "add" | "remove" | "modify" | "move";
   path: string;
   node?: DOMNode;
+  /** Parent a moved node was taken out of */
+  from?: string;
   changes?: {
     attributes?: Record<string, { from: string; to: string }>;
     classes?: { added: string[]; removed: string[] };
@@ -32,39 +39,36 @@ export interface StyleDiff {
   changes: Record<string, { from: string; to: string }>;
 }
 
-const MEANINGFUL_STYLE_PROPERTIES = [
-  "display",
-  "visibility",
-  "opacity",
-  "transform",
-  "transition",
-  "animation",
-  "position",
-  "top",
-  "left",
-  "right",
-  "bottom",
-  "width",
-  "height",
-  "z-index",
-  "overflow",
-  "clip-path",
-  "filter",
-  "backdrop-filter",
-];
-
-const IGNORED_ATTRIBUTES = [
-  "data-reactid",
-  "data-react-checksum",
-  "data-v-",
-  "data-svelte-",
-  "_ngcontent-",
-  "_nghost-",
-  "data-emotion-",
-  "data-styled-",
-];
+export interface DiffOptions {
+  meaningfulStyles?: string[];
+  ignoreAttributes?: string[];
+  /** Maximum diffs reported per mutation batch */
+  maxDiffs?: number;
+  /** Maximum depth of serialized subtrees below the added node */
+  subtreeMaxDepth?: number;
+  /** Maximum elements serialized per added subtree */
+  subtreeMaxNodes?: number;
+}
 
 export class DOMDiffCompressor {
+  private options: Required<DiffOptions>;
+  private redactor?: Redactor;
+
+  constructor(options: DiffOptions = {}, redactor?: Redactor) {
+    this.options = {
+      meaningfulStyles:
+        options.meaningfulStyles || DEFAULT_SETTINGS.meaningfulStyles,
+      ignoreAttributes:
+        options.ignoreAttributes || DEFAULT_SETTINGS.ignoredAttributes,
+      maxDiffs: options.maxDiffs ?? DEFAULT_SETTINGS.mutationMaxDiffs,
+      subtreeMaxDepth:
+        options.subtreeMaxDepth ?? DEFAULT_SETTINGS.subtreeMaxDepth,
+      subtreeMaxNodes:
+        options.subtreeMaxNodes ?? DEFAULT_SETTINGS.subtreeMaxNodes,
+    };
+    this.redactor = redactor;
+  }
+
   /**
    * Serialize element to compact representation
    */
@@ -84,6 +88,41 @@ export class DOMDiffCompressor {
     return node;
   }
 
+  /**
+   * Serialize element with its descendants, within the subtree limits
+   */
+  serializeTree(element: Element): DOMNode {
+    const budget = { nodes: this.options.subtreeMaxNodes - 1 };
+    return this.serializeChildren(element, 0, budget);
+  }
+
+  private serializeChildren(
+    element: Element,
+    depth: number,
+    budget: { nodes: number },
+  ): DOMNode {
+    const node = this.serializeNode(element);
+    const children = Array.from(element.children);
+    if (children.length === 0) return node;
+
+    const included: DOMNode[] = [];
+    if (depth < this.options.subtreeMaxDepth) {
+      for (const child of children) {
+        if (budget.nodes <= 0) break;
+        budget.nodes--;
+        included.push(this.serializeChildren(child, depth + 1, budget));
+      }
+    }
+
+    if (included.length > 0) {
+      node.children = included;
+    }
+    if (included.length < children.length) {
+      node.truncated = children.length - included.length;
+    }
+    return node;
+  }
+
   /**
    * Get only meaningful attributes (filter framework noise)
    */
@@ -94,7 +133,7 @@ export class DOMDiffCompressor {
       const attr = element.attributes[i];
 
       // Skip ignored attributes
-      if (IGNORED_ATTRIBUTES.some((ignored) => attr.name.startsWith(ignored))) {
+      if (this.options.ignoreAttributes.some((ignored) => attr.name.startsWith(ignored))) {
         continue;
       }
 
@@ -111,16 +150,37 @@ export class DOMDiffCompressor {
       attrs[attr.name] = attr.value;
     }
 
-    return attrs;
+    return this.redactAttributes(element, attrs);
+  }
+
+  /**
+   * Mask sensitive attribute values (form values of sensitive fields,
+   * configured attributes, pattern matches)
+   */
+  private redactAttributes(
+    element: Element,
+    attrs: Record<string, string>,
+  ): Record<string, string> {
+    if (!this.redactor) return attrs;
+
+    const masked = this.redactor.maskAttributes(attrs);
+    if (attrs.value) {
+      masked.value = this.redactor.redactValue(element, attrs.value);
+    }
+    return masked;
   }
 
   /**
    * Get meaningful classes (filter framework-generated ones)
    */
   private getMeaningfulClasses(element: Element): string[] {
-    return Array.from(element.classList).filter((cls: string) => {
+    return this.filterClasses(Array.from(element.classList));
+  }
+
+  private filterClasses(classes: string[]): string[] {
+    return classes.filter((cls: string) => {
       // Filter out framework classes
-      if (IGNORED_ATTRIBUTES.some((ignored) => cls.includes(ignored))) {
+      if (this.options.ignoreAttributes.some((ignored) => cls.includes(ignored))) {
         return false;
       }
 
@@ -145,7 +205,11 @@ export class DOMDiffCompressor {
         text += node.textContent || "";
       }
     }
-    return text.trim();
+    return this.redactText(element, text.trim());
+  }
+
+  private redactText(element: Element, text: string): string {
+    return this.redactor ? this.redactor.redactText(element, text) : text;
   }
 
   /**
@@ -251,7 +315,7 @@ export class DOMDiffCompressor {
   ): StyleDiff | null {
     const changes: Record<string, { from: string; to: string }> = {};
 
-    for (const prop of MEANINGFUL_STYLE_PROPERTIES) {
+    for (const prop of this.options.meaningfulStyles) {
       const before = beforeStyles.getPropertyValue(prop);
       const after = afterStyles.getPropertyValue(prop);
 
@@ -321,8 +385,13 @@ export class DOMDiffCompressor {
     let hasClassChanges = false;
 
     for (const mutation of mutations) {
-      if (mutation.target instanceof Element) {
-        affectedElements.add(mutation.target);
+      // Text edits land on the text node; count the element holding it
+      const target =
+        mutation.type === "characterData"
+          ? mutation.target.parentElement
+          : mutation.target;
+      if (target instanceof Element) {
+        affectedElements.add(target);
       }
 
       if (mutation.type === "attributes") {
@@ -330,7 +399,8 @@ export class DOMDiffCompressor {
         if (mutation.attributeName === "class") {
           hasClassChanges = true;
         }
-      } else if (mutation.type === "childList") {
+      } else {
+        // childList and characterData both change content
         hasChildListChanges = true;
       }
     }
@@ -353,4 +423,209 @@ export class DOMDiffCompressor {
       affectedElements: affectedElements.size,
     };
   }
+
+  /**
+   * Turn a batch of mutation records into structured diffs: added subtrees,
+   * removed nodes, moves, and attribute, class and text changes. Nodes
+   * added and removed within the batch never existed for the user and are
+   * dropped. `describe` gives the path of an element (connected or not).
+   */
+  diffMutations(
+    mutations: MutationRecord[],
+    describe: (element: Element) => string,
+  ): { diffs: DOMDiff[]; omitted: number } {
+    const added = new Set<Element>();
+    // Removed element -> the parent it was first removed from
+    const removed = new Map<Element, Node>();
+    // Element -> attribute values before the batch
+    const oldAttributes = new Map<Element, Record<string, string | null>>();
+    // Element -> direct text before the batch
+    const oldText = new Map<Element, string>();
+
+    for (const mutation of mutations) {
+      if (mutation.type === "attributes") {
+        const element = mutation.target as Element;
+        const name = mutation.attributeName!;
+        if (!oldAttributes.has(element)) oldAttributes.set(element, {});
+        const values = oldAttributes.get(element)!;
+        if (!(name in values)) values[name] = mutation.oldValue;
+      } else if (mutation.type === "characterData") {
+        const parent = mutation.target.parentElement;
+        if (parent && !oldText.has(parent)) {
+          oldText.set(
+            parent,
+            this.getTextBefore(parent, mutation.target, mutation.oldValue),
+          );
+        }
+      } else {
+        const parent = mutation.target;
+        const textChanged = [
+          ...Array.from(mutation.addedNodes),
+          ...Array.from(mutation.removedNodes),
+        ].some((node) => node.nodeType === 3); // Node.TEXT_NODE = 3
+        if (parent instanceof Element && textChanged && !oldText.has(parent)) {
+          // Replaced text comes from the removed nodes, appended text was not there
+          const removedText = Array.from(mutation.removedNodes)
+            .filter((node) => node.nodeType === 3)
+            .map((node) => node.textContent || "")
+            .join("");
+          const addedNodes = new Set(Array.from(mutation.addedNodes));
+          const keptText = Array.from(parent.childNodes)
+            .filter((node) => node.nodeType === 3 && !addedNodes.has(node))
+            .map((node) => node.textContent || "")
+            .join("");
+          oldText.set(parent, (keptText + removedText).trim());
+        }
+
+        for (const node of Array.from(mutation.removedNodes)) {
+          if (!(node instanceof Element)) continue;
+          if (added.has(node)) {
+            added.delete(node);
+          } else if (!removed.has(node)) {
+            removed.set(node, mutation.target);
+          }
+        }
+        for (const node of Array.from(mutation.addedNodes)) {
+          if (node instanceof Element) {
+            added.delete(node); // Re-insertion moves it to the end
+            added.add(node);
+          }
+        }
+      }
+    }
+
+    const diffs: DOMDiff[] = [];
+    const isNew = (element: Element): boolean => {
+      for (let el: Element | null = element; el; el = el.parentElement) {
+        if (added.has(el)) return true;
+      }
+      return false;
+    };
+
+    for (const [element, parent] of removed) {
+      if (element.isConnected) {
+        added.delete(element);
+        diffs.push({
+          type: "move",
+          path: describe(element),
+          from: parent instanceof Element ? describe(parent) : "",
+          node: this.serializeNode(element),
+        });
+      } else if (!(removed.has(parent as Element) && !parent.isConnected)) {
+        // Descendants of a removed subtree are covered by its root
+        diffs.push({
+          type: "remove",
+          path: describe(element),
+          node: this.serializeNode(element),
+        });
+      }
+    }
+
+    for (const element of added) {
+      if (!element.isConnected || (element.parentElement && isNew(element.parentElement))) {
+        continue;
+      }
+      diffs.push({
+        type: "add",
+        path: describe(element),
+        node: this.serializeTree(element),
+      });
+    }
+
+    const modified = new Set([...oldAttributes.keys(), ...oldText.keys()]);
+    for (const element of modified) {
+      if (!element.isConnected || isNew(element)) continue;
+
+      const changes = this.diffElement(
+        element,
+        oldAttributes.get(element) || {},
+        oldText.get(element),
+      );
+      if (changes) {
+        diffs.push({
+          type: "modify",
+          path: describe(element),
+          // Identity (tag, role, classes) after the change
+          node: this.serializeNode(element),
+          changes,
+        });
+      }
+    }
+
+    const limit = this.options.maxDiffs;
+    return {
+      diffs: diffs.slice(0, limit),
+      omitted: Math.max(0, diffs.length - limit),
+    };
+  }
+
+  /**
+   * Changes of an element against its attribute values and text before
+   * a mutation batch
+   */
+  private diffElement(
+    element: Element,
+    before: Record<string, string | null>,
+    textBefore: string | undefined,
+  ): DOMDiff["changes"] | null {
+    const changes: DOMDiff["changes"] = {};
+
+    const current = this.getMeaningfulAttributes(element);
+    const attributes: Record<string, { from: string; to: string }> = {};
+    for (const [name, value] of Object.entries(before)) {
+      // Classes are diffed as lists; inline styles are captured separately
+      if (name === "class" || name === "style") continue;
+      if (this.options.ignoreAttributes.some((ignored) => name.startsWith(ignored))) {
+        continue;
+      }
+
+      // A present boolean attribute (open, hidden) reads as its name, absent as ""
+      const from =
+        value === null ? "" : this.redactAttribute(element, name, value) || name;
+      const to = name in current ? current[name] || name : "";
+      if (from !== to) {
+        attributes[name] = { from, to };
+      }
+    }
+    if (Object.keys(attributes).length > 0) {
+      changes.attributes = attributes;
+    }
+
+    if ("class" in before) {
+      const classes = this.compareClasses(
+        this.filterClasses((before.class || "").split(/\s+/).filter(Boolean)),
+        this.getMeaningfulClasses(element),
+      );
+      if (classes.added.length > 0 || classes.removed.length > 0) {
+        changes.classes = classes;
+      }
+    }
+
+    if (textBefore !== undefined) {
+      const from = this.redactText(element, textBefore);
+      const to = this.getDirectTextContent(element);
+      if (from !== to) {
+        changes.text = { from, to };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  private redactAttribute(element: Element, name: string, value: string): string {
+    return this.redactAttributes(element, { [name]: value })[name];
+  }
+
+  /**
+   * Direct text of an element with one text node's earlier content
+   */
+  private getTextBefore(element: Element, changed: Node, oldValue: string | null): string {
+    let text = "";
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === 3) {
+        text += node === changed ? oldValue || "" : node.textContent || "";
+      }
+    }
+    return text.trim();
+  }
 }
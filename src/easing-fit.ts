@@ -0,0 +1,433 @@
+/**
+ * Easing Fitter
+ *
+ * Approximates the timing function behind a frame-sampled property curve:
+ * - cubic-bezier() (or a named keyword) for smooth motion
+ * - steps() for discrete jumps
+ * - spring parameters plus a linear() approximation for oscillating motion
+ */
+
+import { CurveSample, FittedEasing, PropertyCurve } from "./types";
+
+type Bezier = [number, number, number, number];
+
+interface ProgressPoint {
+  t: number;
+  p: number;
+}
+
+const NAMED_EASINGS: Record<string, Bezier> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+// Progress closer than this to 0 or 1 counts as at rest
+const REST_EPSILON = 1e-4;
+
+// Tolerance used when deciding which side of the final value a sample is on
+const CROSSING_EPSILON = 0.02;
+
+// A named keyword wins if it fits almost as well as the free-form curve
+const NAMED_EASING_TOLERANCE = 0.01;
+
+// Discrete levels above this are treated as a continuous curve
+const MAX_STEPS = 12;
+
+// Best grid candidates refined by pattern search
+const REFINED_SEEDS = 4;
+
+// Number of points emitted in a linear() spring approximation
+const LINEAR_POINTS = 20;
+
+export class EasingFitter {
+  /**
+   * Fit an easing function to a sampled curve
+   */
+  fit(curve: PropertyCurve): FittedEasing | null {
+    const points = this.toProgress(curve.samples, curve.properties);
+    if (!points) return null;
+
+    const range = this.findActiveRange(points);
+    if (!range) return null;
+
+    let startTime = points[range.start].t;
+    let duration = points[range.end].t - startTime;
+    if (duration <= 0) return null;
+
+    const steps = this.detectSteps(points.slice(range.start, range.end + 1));
+    if (steps && steps > 1) {
+      // steps() jumps at the end of each interval, so the start precedes the first jump
+      const firstJump = points[range.start + 1].t;
+      duration = ((points[range.end].t - firstJump) * steps) / (steps - 1);
+      startTime = firstJump - duration / steps;
+    }
+
+    // Normalize time to 0..1 across the active range
+    const normalized = points
+      .slice(range.start, range.end + 1)
+      .map((point) => ({ t: (point.t - startTime) / duration, p: point.p }));
+
+    const timing = {
+      duration: Math.round(duration),
+      delay: Math.max(0, Math.round(startTime)),
+    };
+
+    if (steps) {
+      const error = this.rmse(normalized, (t) => Math.min(1, Math.floor(t * steps) / steps));
+      return { ...timing, kind: "steps", easing: `steps(${steps})`, error: this.round(error, 4) };
+    }
+
+    if (this.countTargetCrossings(normalized) >= 2) {
+      return { ...timing, ...this.fitSpring(normalized, duration) };
+    }
+
+    const { window, ...bezier } = this.fitCubicBezier(normalized);
+    return {
+      ...bezier,
+      duration: Math.round((window[1] - window[0]) * duration),
+      delay: Math.max(0, Math.round(startTime + window[0] * duration)),
+    };
+  }
+
+  /**
+   * Project multi-valued samples onto a single 0..1 progress scale
+   */
+  private toProgress(
+    samples: CurveSample[],
+    properties: string[],
+  ): ProgressPoint[] | null {
+    if (samples.length < 3) return null;
+
+    // Keep only properties whose values parse to a stable number of components
+    const usable = properties.filter((prop) => {
+      const lengths = new Set(
+        samples.map((sample) => this.parseNumbers(prop, sample.values[prop]).length),
+      );
+      return lengths.size === 1 && !lengths.has(0);
+    });
+    if (usable.length === 0) return null;
+
+    const vectors = samples.map((sample) =>
+      usable.flatMap((prop) => this.parseNumbers(prop, sample.values[prop])),
+    );
+
+    const first = vectors[0];
+    const last = vectors[vectors.length - 1];
+    const delta = last.map((value, i) => value - first[i]);
+    const lengthSquared = delta.reduce((sum, d) => sum + d * d, 0);
+    if (lengthSquared === 0) return null;
+
+    return vectors.map((vector, i) => ({
+      t: samples[i].t,
+      p:
+        vector.reduce((sum, value, j) => sum + (value - first[j]) * delta[j], 0) /
+        lengthSquared,
+    }));
+  }
+
+  /**
+   * Extract numeric components from a computed value
+   */
+  private parseNumbers(property: string, value: string | undefined): number[] {
+    if (value === undefined) return [];
+    if (property === "transform" && value === "none") {
+      return [1, 0, 0, 1, 0, 0];
+    }
+    return (value.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+  }
+
+  /**
+   * Find the samples bracketing the first movement and the final settle
+   */
+  private findActiveRange(
+    points: ProgressPoint[],
+  ): { start: number; end: number } | null {
+    const firstMove = points.findIndex((point) => Math.abs(point.p) > REST_EPSILON);
+    if (firstMove === -1) return null;
+
+    let lastUnsettled = firstMove;
+    for (let i = points.length - 1; i >= firstMove; i--) {
+      if (Math.abs(points[i].p - 1) > REST_EPSILON) {
+        lastUnsettled = i;
+        break;
+      }
+    }
+
+    return {
+      start: Math.max(0, firstMove - 1),
+      end: Math.min(points.length - 1, lastUnsettled + 1),
+    };
+  }
+
+  /**
+   * Count how often progress crosses its final value (oscillation)
+   */
+  private countTargetCrossings(points: ProgressPoint[]): number {
+    let crossings = 0;
+    let side = 0;
+
+    for (const point of points) {
+      const offset = point.p - 1;
+      if (Math.abs(offset) <= CROSSING_EPSILON) continue;
+
+      const current = Math.sign(offset);
+      if (side !== 0 && current !== side) crossings++;
+      side = current;
+    }
+
+    return crossings;
+  }
+
+  /**
+   * Detect discrete plateaus; returns the number of steps or null
+   */
+  private detectSteps(points: ProgressPoint[]): number | null {
+    const levels = new Set(points.map((point) => point.p.toFixed(3)));
+    if (levels.size < 2 || levels.size > MAX_STEPS + 1) return null;
+
+    let plateaus = 0;
+    for (let i = 1; i < points.length; i++) {
+      if (Math.abs(points[i].p - points[i - 1].p) < REST_EPSILON) plateaus++;
+    }
+    if (plateaus / (points.length - 1) < 0.5) return null;
+
+    return levels.size - 1;
+  }
+
+  /**
+   * Estimate spring stiffness/damping from overshoot and time-to-peak
+   */
+  private fitSpring(
+    points: ProgressPoint[],
+    duration: number,
+  ): Pick<FittedEasing, "kind" | "easing" | "error" | "spring"> {
+    const peak = points.reduce((max, point) => (point.p > max.p ? point : max));
+    const overshoot = Math.max(peak.p - 1, 1e-3);
+    const peakSeconds = Math.max((peak.t * duration) / 1000, 1e-3);
+
+    // Underdamped second-order step response (unit mass)
+    const logOvershoot = Math.log(overshoot);
+    const dampingRatio = -logOvershoot / Math.sqrt(Math.PI ** 2 + logOvershoot ** 2);
+    const dampedFrequency = Math.PI / peakSeconds;
+    const naturalFrequency = dampedFrequency / Math.sqrt(1 - dampingRatio ** 2);
+
+    const stops: ProgressPoint[] = [];
+    for (let i = 0; i <= LINEAR_POINTS; i++) {
+      const t = i / LINEAR_POINTS;
+      stops.push({ t, p: this.round(this.interpolate(points, t), 3) });
+    }
+
+    const easing = stops
+      .map((stop, i) =>
+        i === 0 || i === LINEAR_POINTS ? `${stop.p}` : `${stop.p} ${Math.round(stop.t * 100)}%`,
+      )
+      .join(", ");
+
+    return {
+      kind: "spring",
+      easing: `linear(${easing})`,
+      error: this.round(this.rmse(points, (t) => this.interpolate(stops, t)), 4),
+      spring: {
+        stiffness: Math.round(naturalFrequency ** 2),
+        damping: this.round(2 * dampingRatio * naturalFrequency, 1),
+        mass: 1,
+      },
+    };
+  }
+
+  /**
+   * Least-squares cubic-bezier fit: coarse grid, then pattern search
+   *
+   * The true start and end lie up to one frame inside the sampled range,
+   * so the search also refines that window.
+   */
+  private fitCubicBezier(
+    points: ProgressPoint[],
+  ): Pick<FittedEasing, "kind" | "easing" | "error"> & { window: [number, number] } {
+    const frame = points.length > 1 ? points[1].t - points[0].t : 0;
+    const lastFrame = points.length > 1 ? 1 - points[points.length - 2].t : 0;
+
+    const score = (bezier: Bezier, [start, end]: [number, number]) =>
+      this.rmse(points, (t) =>
+        this.bezierAt(bezier, Math.min(1, Math.max(0, (t - start) / (end - start)))),
+      );
+
+    const fitWindow = (bezier: Bezier): { window: [number, number]; error: number } => {
+      let window: [number, number] = [0, 1];
+      let error = score(bezier, window);
+      for (let i = 0; i <= 4; i++) {
+        for (let j = 0; j <= 4; j++) {
+          const candidate: [number, number] = [(frame * i) / 4, 1 - (lastFrame * j) / 4];
+          const candidateError = score(bezier, candidate);
+          if (candidateError < error) {
+            window = candidate;
+            error = candidateError;
+          }
+        }
+      }
+      return { window, error };
+    };
+
+    const midWindow: [number, number] = [frame / 2, 1 - lastFrame / 2];
+
+    // x in 0..1 and y in -0.6..1.6, both in steps of 0.2
+    const xs = Array.from({ length: 6 }, (_, i) => i / 5);
+    const ys = Array.from({ length: 12 }, (_, i) => (i - 3) / 5);
+
+    const seeds: Array<{ bezier: Bezier; error: number }> = [];
+    for (const x1 of xs) {
+      for (const x2 of xs) {
+        for (const y1 of ys) {
+          for (const y2 of ys) {
+            const bezier: Bezier = [x1, y1, x2, y2];
+            seeds.push({ bezier, error: score(bezier, midWindow) });
+          }
+        }
+      }
+    }
+    seeds.sort((a, b) => a.error - b.error);
+
+    let best: Bezier = NAMED_EASINGS.linear;
+    let bestWindow = midWindow;
+    let bestError = score(best, bestWindow);
+
+    for (const seed of seeds.slice(0, REFINED_SEEDS)) {
+      const refined = this.refineBezier(seed.bezier, midWindow, frame, lastFrame, score);
+      if (refined.error < bestError) {
+        best = refined.bezier;
+        bestWindow = refined.window;
+        bestError = refined.error;
+      }
+    }
+
+    // Prefer a keyword when it is practically indistinguishable
+    const named = Object.entries(NAMED_EASINGS)
+      .map(([name, bezier]) => ({ name, ...fitWindow(bezier) }))
+      .sort((a, b) => a.error - b.error)[0];
+    if (named.error <= bestError + NAMED_EASING_TOLERANCE) {
+      return {
+        kind: "cubic-bezier",
+        easing: named.name,
+        error: this.round(named.error, 4),
+        window: named.window,
+      };
+    }
+
+    const [x1, y1, x2, y2] = best.map((value) => this.round(value, 2));
+    return {
+      kind: "cubic-bezier",
+      easing: `cubic-bezier(${x1}, ${y1}, ${x2}, ${y2})`,
+      error: this.round(bestError, 4),
+      window: bestWindow,
+    };
+  }
+
+  /**
+   * Pattern search over control points and the start/end window
+   */
+  private refineBezier(
+    bezier: Bezier,
+    window: [number, number],
+    frame: number,
+    lastFrame: number,
+    score: (bezier: Bezier, window: [number, number]) => number,
+  ): { bezier: Bezier; window: [number, number]; error: number } {
+    let best = bezier;
+    let bestWindow = window;
+    let bestError = score(best, bestWindow);
+
+    for (let step = 0.1; step >= 0.005; step /= 2) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (let i = 0; i < 6; i++) {
+          for (const direction of [-1, 1]) {
+            const candidate = [...best] as Bezier;
+            const candidateWindow = [...bestWindow] as [number, number];
+            if (i < 4) {
+              candidate[i] += direction * step;
+              if (i % 2 === 0) {
+                candidate[i] = Math.min(1, Math.max(0, candidate[i]));
+              }
+            } else if (i === 4) {
+              candidateWindow[0] = Math.min(
+                frame,
+                Math.max(0, candidateWindow[0] + direction * step * frame),
+              );
+            } else {
+              candidateWindow[1] = Math.min(
+                1,
+                Math.max(1 - lastFrame, candidateWindow[1] + direction * step * lastFrame),
+              );
+            }
+            const error = score(candidate, candidateWindow);
+            if (error < bestError) {
+              best = candidate;
+              bestWindow = candidateWindow;
+              bestError = error;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+
+    return { bezier: best, window: bestWindow, error: bestError };
+  }
+
+  /**
+   * Evaluate a cubic-bezier easing at time x (bisection on the x curve)
+   */
+  private bezierAt([x1, y1, x2, y2]: Bezier, x: number): number {
+    let low = 0;
+    let high = 1;
+    let t = x;
+
+    for (let i = 0; i < 20; i++) {
+      t = (low + high) / 2;
+      if (this.cubic(x1, x2, t) < x) {
+        low = t;
+      } else {
+        high = t;
+      }
+    }
+
+    return this.cubic(y1, y2, t);
+  }
+
+  private cubic(p1: number, p2: number, t: number): number {
+    const u = 1 - t;
+    return 3 * p1 * u * u * t + 3 * p2 * u * t * t + t * t * t;
+  }
+
+  /**
+   * Linear interpolation of progress at normalized time t
+   */
+  private interpolate(points: ProgressPoint[], t: number): number {
+    if (t <= points[0].t) return points[0].p;
+
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].t >= t) {
+        const a = points[i - 1];
+        const b = points[i];
+        const span = b.t - a.t;
+        return span === 0 ? b.p : a.p + ((b.p - a.p) * (t - a.t)) / span;
+      }
+    }
+
+    return points[points.length - 1].p;
+  }
+
+  private rmse(points: ProgressPoint[], easing: (t: number) => number): number {
+    const total = points.reduce((sum, point) => sum + (easing(point.t) - point.p) ** 2, 0);
+    return Math.sqrt(total / points.length);
+  }
+
+  private round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Effect Chains
+ *
+ * Attributes what happens after an interaction to it: the requests it
+ * sends, DOM changes anywhere in the document, animations on other
+ * elements and route changes. An effect joins the chain when it starts
+ * within a settle window of the trigger or of the previous effect, so a
+ * response that lands late still pulls in the update it caused, e.g.
+ * click → fetch → skeleton removed → list fades in.
+ */
+
+import { DOMDiff } from "./dom-diff";
+import { UIPatternRecognizer } from "./ui-patterns";
+import {
+  CapturedAnimation,
+  EffectChain,
+  EffectStep,
+  InteractionEvent,
+  NetworkRequest,
+  PropertyCurve,
+  TraceRecord,
+} from "./types";
+
+type TimedStep = Omit<EffectStep, "offset">;
+
+interface TimedEffect {
+  at: number;
+  // When the effect is over (responses and animations take a while)
+  end: number;
+  pageId: string;
+  steps: TimedStep[];
+  // Raw diffs of mutation effects, for pattern recognition
+  diffs?: DOMDiff[];
+}
+
+// Effects starting this long after the trigger or the previous effect belong to it
+const SETTLE_MS = 1000;
+// No chain runs longer than this after its trigger
+const MAX_CHAIN_MS = 10000;
+const MAX_CHAIN_STEPS = 30;
+// Steps named in a chain summary before it is cut short
+const SUMMARY_STEPS = 6;
+
+// Interactions that start effects; hovers, focus and scrolling do not end a chain
+const TRIGGER_KINDS = ["click", "submit", "input", "keydown", "keypress", "gesture"];
+
+// Requests made by page code, as opposed to images, fonts and stylesheets
+const SCRIPTED_REQUESTS = ["fetch", "xhr"];
+
+// Navigations an interaction can cause
+const CAUSED_NAVIGATIONS = ["load", "push", "replace", "pop", "hash", "open"];
+
+// Animated properties described as movement or resizing
+const MOTION_PROPERTIES = [
+  "transform",
+  "translate",
+  "scale",
+  "rotate",
+  "top",
+  "left",
+  "right",
+  "bottom",
+];
+const SIZE_PROPERTIES = ["width", "height", "max-width", "max-height"];
+
+// " over 300ms" at the end of an animation step, left out of summaries
+const DURATION_SUFFIX = / (?:from script )?over \d+ms$/;
+
+export class EffectChainBuilder {
+  private patterns = new UIPatternRecognizer();
+
+  constructor(private describeEvent: (event: InteractionEvent) => string = (event) => event.kind) {}
+
+  /**
+   * Chains for every triggering interaction that had an effect
+   */
+  build(traces: TraceRecord[]): EffectChain[] {
+    const effects = traces
+      .flatMap((trace) => this.toEffects(trace))
+      .sort((a, b) => a.at - b.at);
+    const triggers = traces.filter(
+      (trace) =>
+        trace.type === "interaction" && trace.event && TRIGGER_KINDS.includes(trace.event.kind),
+    );
+    const scrolls = traces.filter(
+      (trace) => trace.type === "interaction" && trace.event?.kind === "scroll",
+    );
+
+    const chains: EffectChain[] = [];
+    triggers.forEach((trigger, i) => {
+      const pageId = trigger.pageId || "page-1";
+      const event = trigger.event!;
+
+      // The next interaction on the same page takes over
+      const next = triggers.slice(i + 1).find((other) => (other.pageId || "page-1") === pageId);
+      const end = Math.min(next ? next.ts : Infinity, trigger.ts + MAX_CHAIN_MS);
+      // Gestures are stamped at pointerdown but trigger effects on release
+      let deadline = trigger.ts + (event.gesture?.duration || 0) + SETTLE_MS;
+
+      const steps: EffectStep[] = [];
+      const diffs: DOMDiff[] = [];
+      let lastAt = trigger.ts;
+      for (const effect of effects) {
+        if (effect.pageId !== pageId || effect.at < trigger.ts) continue;
+        if (effect.at >= end || effect.at > deadline) break;
+
+        steps.push(...effect.steps.map((step) => ({ offset: effect.at - trigger.ts, ...step })));
+        diffs.push(...(effect.diffs || []));
+        deadline = Math.max(deadline, effect.end + SETTLE_MS);
+        lastAt = effect.at;
+      }
+
+      if (steps.length === 0) return;
+
+      // The next page of a feed arrives with a request or after a scroll
+      const loadedMore =
+        steps.some((step) => step.kind === "request") ||
+        scrolls.some(
+          (scroll) =>
+            (scroll.pageId || "page-1") === pageId && scroll.ts >= trigger.ts && scroll.ts <= lastAt,
+        );
+
+      const animations = steps
+        .filter((step) => step.kind === "animation")
+        .map((step) => ({ target: step.target, properties: step.properties || {} }));
+
+      const chain: EffectChain = {
+        trigger: {
+          ts: trigger.ts,
+          event: this.describeEvent(event),
+          selector: event.selector,
+          pageId: trigger.pageId,
+        },
+        steps: steps.slice(0, MAX_CHAIN_STEPS),
+        omitted: steps.length > MAX_CHAIN_STEPS ? steps.length - MAX_CHAIN_STEPS : undefined,
+        pattern: this.patterns.recognize({ diffs, animations, loadedMore }) || undefined,
+        summary: "",
+      };
+      chain.summary = this.summarize(chain);
+      chains.push(chain);
+    });
+
+    return chains;
+  }
+
+  /**
+   * Effects recorded by a trace (none for interactions and bookkeeping traces)
+   */
+  private toEffects(trace: TraceRecord): TimedEffect[] {
+    const pageId = trace.pageId || "page-1";
+    const effect = (steps: TimedStep[], end = trace.ts): TimedEffect[] =>
+      steps.length > 0 ? [{ at: trace.ts, end, pageId, steps }] : [];
+
+    switch (trace.type) {
+      case "network":
+        return (trace.network || [])
+          .filter((request) => SCRIPTED_REQUESTS.includes(request.resourceType))
+          .map((request) => ({
+            // Older sessions only recorded when the response arrived
+            at: request.startedAt ?? trace.ts - request.timing,
+            end: trace.ts,
+            pageId,
+            steps: [this.describeRequest(request)],
+          }));
+      case "mutation": {
+        // Sessions recorded before structured diffs only have counts
+        const diffs = (trace.mutation?.changes || []).filter((diff) => diff.path !== undefined);
+        return effect(diffs.map((diff) => this.describeDiff(diff))).map((timed) => ({
+          ...timed,
+          diffs,
+        }));
+      }
+      case "animation": {
+        const animation = trace.animation;
+        // Scroll-driven animations follow the scroll position, not an interaction
+        if (!animation || (animation.timeline && animation.timeline.type !== "document")) return [];
+        const { delay, duration, iterations } = animation.timing;
+        const length = iterations === "infinite" ? 0 : delay + duration * iterations;
+        return effect([this.describeAnimation(animation)], trace.ts + length);
+      }
+      case "curve": {
+        // Curves of CSS and WAAPI animations repeat their animation traces
+        const curve = trace.curve;
+        if (curve?.source !== "style-mutation") return [];
+        const last = curve.samples[curve.samples.length - 1];
+        return effect([this.describeCurve(curve)], trace.ts + (last?.t || 0));
+      }
+      case "navigation": {
+        const navigation = trace.navigation;
+        if (!navigation || !CAUSED_NAVIGATIONS.includes(navigation.kind)) return [];
+        const from = navigation.from ? `${navigation.from} → ` : "";
+        return effect([
+          {
+            kind: "navigation",
+            target: navigation.to,
+            description: `${navigation.kind} ${from}${navigation.to}`,
+          },
+        ]);
+      }
+      default:
+        return [];
+    }
+  }
+
+  private describeRequest(request: NetworkRequest): TimedStep {
+    let location = request.url;
+    try {
+      const url = new URL(request.url);
+      location = url.pathname + url.search;
+    } catch {
+      // Not an absolute URL (e.g. data:), keep it whole
+    }
+
+    const outcome =
+      request.failure || `${request.status}${request.statusText ? ` ${request.statusText}` : ""}`;
+    return {
+      kind: "request",
+      target: `${request.method} ${location}`,
+      description: `${request.method} ${request.url} → ${outcome} (${request.timing}ms)`,
+    };
+  }
+
+  private describeDiff(diff: DOMDiff): TimedStep {
+    const tag = diff.node?.tag || "element";
+    switch (diff.type) {
+      case "add": {
+        const children = diff.node?.children?.length || 0;
+        return {
+          kind: "added",
+          target: diff.path,
+          description: `added <${tag}>${children ? ` with ${children} children` : ""}`,
+        };
+      }
+      case "remove":
+        return { kind: "removed", target: diff.path, description: `removed <${tag}>` };
+      case "move":
+        return {
+          kind: "moved",
+          target: diff.path,
+          description: `moved out of ${diff.from || "its parent"}`,
+        };
+      default: {
+        const properties: Record<string, { from: string; to: string }> = {
+          ...diff.changes?.attributes,
+        };
+        const classes = diff.changes?.classes;
+        if (classes) {
+          properties.class = { from: classes.removed.join(" "), to: classes.added.join(" ") };
+        }
+        if (diff.changes?.text) {
+          properties.text = diff.changes.text;
+        }
+
+        const changes = Object.entries(properties).map(([name, change]) => {
+          if (name !== "class") return `${name} "${change.from}" → "${change.to}"`;
+          const toggled = [
+            ...classes!.added.map((cls) => `+${cls}`),
+            ...classes!.removed.map((cls) => `-${cls}`),
+          ];
+          return `class ${toggled.join(" ")}`;
+        });
+        return { kind: "modified", target: diff.path, description: changes.join(", "), properties };
+      }
+    }
+  }
+
+  private describeAnimation(animation: CapturedAnimation): TimedStep {
+    const first = animation.keyframes[0] || { offset: 0 };
+    const last = animation.keyframes[animation.keyframes.length - 1] || { offset: 1 };
+    const properties: Record<string, { from: string; to: string }> = {};
+    for (const frame of animation.keyframes) {
+      for (const prop of Object.keys(frame)) {
+        if (["offset", "easing", "composite"].includes(prop) || properties[prop]) continue;
+        properties[prop] = { from: String(first[prop] ?? ""), to: String(last[prop] ?? "") };
+      }
+    }
+
+    const target = animation.pseudoElement
+      ? `${animation.selector}${animation.pseudoElement}`
+      : animation.selector;
+    return {
+      kind: "animation",
+      target,
+      description: `${this.describeMotion(properties)} over ${animation.timing.duration}ms`,
+      properties,
+    };
+  }
+
+  private describeCurve(curve: PropertyCurve): TimedStep {
+    const first = curve.samples[0]?.values || {};
+    const last = curve.samples[curve.samples.length - 1]?.values || {};
+    const properties: Record<string, { from: string; to: string }> = {};
+    for (const prop of curve.properties) {
+      properties[prop] = { from: first[prop] ?? "", to: last[prop] ?? "" };
+    }
+
+    const target = curve.pseudoElement ? `${curve.selector}${curve.pseudoElement}` : curve.selector;
+    const duration = curve.samples[curve.samples.length - 1]?.t || 0;
+    return {
+      kind: "animation",
+      target,
+      description: `${this.describeMotion(properties)} from script over ${Math.round(duration)}ms`,
+      properties,
+    };
+  }
+
+  /**
+   * Plain words for animated properties, e.g. "fades in and moves"
+   */
+  private describeMotion(properties: Record<string, { from: string; to: string }>): string {
+    const verbs: string[] = [];
+    const opacity = properties.opacity;
+    if (opacity) {
+      verbs.push(parseFloat(opacity.to) > parseFloat(opacity.from) ? "fades in" : "fades out");
+    }
+    if (MOTION_PROPERTIES.some((prop) => prop in properties)) {
+      verbs.push("moves");
+    }
+    if (SIZE_PROPERTIES.some((prop) => prop in properties)) {
+      verbs.push("resizes");
+    }
+    if (verbs.length > 0) {
+      return verbs.join(" and ");
+    }
+    return `animates ${Object.keys(properties).join(", ") || "styles"}`;
+  }
+
+  /**
+   * One line per chain; runs of identical steps are counted, not repeated
+   */
+  private summarize(chain: EffectChain): string {
+    const labels: Array<{ label: string; count: number }> = [];
+    for (const step of chain.steps) {
+      const label = this.labelStep(step);
+      const previous = labels[labels.length - 1];
+      if (previous?.label === label) {
+        previous.count++;
+      } else {
+        labels.push({ label, count: 1 });
+      }
+    }
+
+    const parts = labels
+      .slice(0, SUMMARY_STEPS)
+      .map(({ label, count }) => (count > 1 ? `${label} ×${count}` : label));
+    if (labels.length > SUMMARY_STEPS || chain.omitted) {
+      parts.push("…");
+    }
+
+    const trigger = `${chain.trigger.event} on ${shortSelector(chain.trigger.selector)}`;
+    const summary = [trigger, ...parts].join(" → ");
+    return chain.pattern ? `${chain.pattern.pattern} ${chain.pattern.action}: ${summary}` : summary;
+  }
+
+  private labelStep(step: EffectStep): string {
+    switch (step.kind) {
+      case "request":
+        return step.target;
+      case "navigation":
+        return `navigate to ${step.target}`;
+      case "animation":
+        return `${shortSelector(step.target)} ${step.description.replace(DURATION_SUFFIX, "")}`;
+      case "modified":
+        return `${shortSelector(step.target)} changed`;
+      default:
+        return `${shortSelector(step.target)} ${step.kind}`;
+    }
+  }
+}
+
+/**
+ * Last compound of a selector path, as in profile names, without its
+ * position so siblings read the same
+ */
+function shortSelector(selector: string): string {
+  const last = selector.split(" ").pop() || selector;
+  return last.replace(/:nth-(?:child|of-type)\(\d+\)/g, "") || last;
+}
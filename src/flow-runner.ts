@@ -0,0 +1,372 @@
+/**
+ * Flow Runner
+ *
+ * Drives a Playwright page through a scripted list of steps so that
+ * captures can be recorded without a human at the keyboard (e.g. in CI).
+ * Flows are loaded from JSON files or JS/TS modules.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FrameLocator, Locator, Page } from "playwright";
+
+export interface FlowPosition {
+  x: number;
+  y: number;
+}
+
+export interface FlowPathPoint extends FlowPosition {
+  /** Time since the pointer went down (ms) */
+  t?: number;
+}
+
+export type FlowStep =
+  | { action: "goto"; url: string }
+  | { action: "click"; selector: string; position?: FlowPosition }
+  | { action: "hover"; selector: string; position?: FlowPosition }
+  | { action: "type"; selector: string; text: string; delay?: number }
+  | { action: "fill"; selector: string; value: string }
+  | { action: "focus"; selector: string }
+  | {
+      action: "scroll";
+      selector?: string;
+      x?: number;
+      y?: number;
+      /** Absolute offsets to scroll `container` (default: the page) to */
+      to?: FlowPosition;
+      container?: string;
+    }
+  | { action: "wait"; ms?: number; selector?: string }
+  | { action: "press"; key: string; selector?: string }
+  | {
+      action: "drag";
+      /** Pointer path in viewport coordinates; a single point held still is a long-press */
+      path: FlowPathPoint[];
+    }
+  | { action: "assert"; selector: string; visible?: boolean; text?: string };
+
+export interface Flow {
+  name?: string;
+  steps: FlowStep[];
+  /** Pause after each step so animations can finish (ms) */
+  stepDelay?: number;
+  /** Timeout for selector lookups and assertions (ms) */
+  timeout?: number;
+}
+
+// Recorded selectors join iframes with " |> "; shadow roots use Playwright's
+// own " >> " chaining, which pierces open shadow roots
+const FRAME_SEPARATOR = " |> ";
+
+const DEFAULT_STEP_DELAY = 500;
+const DEFAULT_STEP_TIMEOUT = 10000;
+
+const REQUIRED_FIELDS: Record<FlowStep["action"], string[]> = {
+  goto: ["url"],
+  click: ["selector"],
+  hover: ["selector"],
+  type: ["selector", "text"],
+  fill: ["selector", "value"],
+  focus: ["selector"],
+  scroll: [],
+  wait: [],
+  press: ["key"],
+  drag: ["path"],
+  assert: ["selector"],
+};
+
+/**
+ * Load and validate a flow from a JSON file or a JS/TS module
+ *
+ * Modules may export a flow object, an array of steps, or a (possibly
+ * async) function returning either.
+ */
+export async function loadFlow(file: string): Promise<Flow> {
+  const resolved = path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Flow file not found: ${resolved}`);
+  }
+
+  const ext = path.extname(resolved);
+  let data: any;
+
+  if (ext === ".json") {
+    data = JSON.parse(fs.readFileSync(resolved, "utf-8"));
+  } else if ([".js", ".cjs", ".ts"].includes(ext)) {
+    if (ext === ".ts") {
+      registerTypeScript();
+    }
+    const mod = require(resolved);
+    data = mod && mod.default !== undefined ? mod.default : mod;
+    if (typeof data === "function") {
+      data = await data();
+    }
+  } else {
+    throw new Error(`Unsupported flow file type: ${ext} (use .json, .js or .ts)`);
+  }
+
+  return validateFlow(Array.isArray(data) ? { steps: data } : data);
+}
+
+/**
+ * Check the flow shape and every step's required fields
+ */
+export function validateFlow(data: any): Flow {
+  if (!data || !Array.isArray(data.steps)) {
+    throw new Error("Invalid flow: expected an object with a \"steps\" array");
+  }
+
+  data.steps.forEach((step: any, i: number) => {
+    const required = step && REQUIRED_FIELDS[step.action as FlowStep["action"]];
+    if (!required) {
+      throw new Error(
+        `Invalid flow step ${i + 1}: unknown action "${step?.action}" ` +
+          `(expected ${Object.keys(REQUIRED_FIELDS).join(", ")})`,
+      );
+    }
+
+    for (const field of required) {
+      if (step[field] === undefined) {
+        throw new Error(`Invalid flow step ${i + 1} (${step.action}): missing "${field}"`);
+      }
+    }
+  });
+
+  return data as Flow;
+}
+
+/**
+ * Allow `.ts` flows when running from the compiled CLI
+ */
+function registerTypeScript(): void {
+  try {
+    require("ts-node").register({ transpileOnly: true });
+  } catch {
+    throw new Error("TypeScript flows require ts-node (npm install -D ts-node)");
+  }
+}
+
+export class FlowRunner {
+  constructor(private page: Page) {}
+
+  /**
+   * Execute all steps in order; throws on the first failing step
+   */
+  async run(flow: Flow): Promise<void> {
+    const stepDelay = flow.stepDelay ?? DEFAULT_STEP_DELAY;
+    const timeout = flow.timeout ?? DEFAULT_STEP_TIMEOUT;
+    const total = flow.steps.length;
+
+    console.log(`🤖 Running flow${flow.name ? ` "${flow.name}"` : ""} (${total} steps)`);
+
+    for (let i = 0; i < total; i++) {
+      const step = flow.steps[i];
+      console.log(`   ▶️  [${i + 1}/${total}] ${this.describe(step)}`);
+
+      try {
+        await this.runStep(step, timeout);
+      } catch (error: any) {
+        throw new Error(`Flow step ${i + 1} (${step.action}) failed: ${error.message}`);
+      }
+
+      // Let triggered animations and mutations play out before the next step
+      await this.page.waitForTimeout(stepDelay);
+    }
+
+    console.log("✅ Flow completed");
+  }
+
+  private async runStep(step: FlowStep, timeout: number): Promise<void> {
+    switch (step.action) {
+      case "goto":
+        await this.page.goto(step.url, { waitUntil: "domcontentloaded" });
+        break;
+
+      case "click":
+        if (await this.resolves(step.selector, step.position, timeout)) {
+          await this.locate(step.selector).first().click({ timeout });
+        } else {
+          await this.page.mouse.click(step.position!.x, step.position!.y);
+        }
+        break;
+
+      case "hover":
+        if (await this.resolves(step.selector, step.position, timeout)) {
+          await this.locate(step.selector).first().hover({ timeout });
+        } else {
+          await this.page.mouse.move(step.position!.x, step.position!.y);
+        }
+        break;
+
+      case "type":
+        await this.locate(step.selector)
+          .first()
+          .pressSequentially(step.text, { delay: step.delay ?? 50, timeout });
+        break;
+
+      case "fill":
+        await this.locate(step.selector).first().fill(step.value, { timeout });
+        break;
+
+      case "focus":
+        await this.locate(step.selector).first().focus({ timeout });
+        break;
+
+      case "scroll":
+        if (step.to) {
+          await this.scrollTo(step.to, step.container);
+        } else if (step.selector) {
+          await this.locate(step.selector).first().scrollIntoViewIfNeeded({ timeout });
+        } else {
+          // Wheel events scroll like a user would, firing scroll listeners
+          await this.page.mouse.wheel(step.x ?? 0, step.y ?? 0);
+        }
+        break;
+
+      case "wait":
+        if (step.selector) {
+          await this.locate(step.selector).first().waitFor({ state: "visible", timeout });
+        }
+        if (step.ms) {
+          await this.page.waitForTimeout(step.ms);
+        }
+        break;
+
+      case "press":
+        if (step.selector) {
+          await this.locate(step.selector).first().press(step.key, { timeout });
+        } else {
+          await this.page.keyboard.press(step.key);
+        }
+        break;
+
+      case "drag":
+        await this.drag(step.path);
+        break;
+
+      case "assert":
+        await this.assert(step, timeout);
+        break;
+    }
+  }
+
+  /**
+   * Scroll a container (or the page) to absolute offsets
+   */
+  private async scrollTo(to: FlowPosition, container?: string): Promise<void> {
+    if (!container || container === "document") {
+      await this.page.evaluate(({ x, y }) => window.scrollTo(x, y), to);
+    } else {
+      await this.locate(container)
+        .first()
+        .evaluate((element, { x, y }) => element.scrollTo(x, y), to);
+    }
+  }
+
+  /**
+   * Resolve a selector, entering any iframes on its path
+   */
+  private locate(selector: string): Locator {
+    const frames = selector.split(FRAME_SEPARATOR);
+    const target = frames.pop()!;
+
+    let scope: Page | FrameLocator = this.page;
+    for (const frame of frames) {
+      scope = scope.frameLocator(frame);
+    }
+    return scope.locator(target);
+  }
+
+  /**
+   * Press, move along the path with its original timing, and release
+   */
+  private async drag(path: FlowPathPoint[]): Promise<void> {
+    if (path.length === 0) {
+      throw new Error("drag path is empty");
+    }
+
+    const [start, ...rest] = path;
+    await this.page.mouse.move(start.x, start.y);
+    await this.page.mouse.down();
+
+    let previousT = start.t ?? 0;
+    for (const point of rest) {
+      const t = point.t ?? previousT + 16;
+      if (t > previousT) {
+        await this.page.waitForTimeout(t - previousT);
+      }
+      await this.page.mouse.move(point.x, point.y);
+      previousT = t;
+    }
+
+    await this.page.mouse.up();
+  }
+
+  /**
+   * Whether to act on the selector; false means fall back to coordinates
+   */
+  private async resolves(
+    selector: string,
+    position: FlowPosition | undefined,
+    timeout: number,
+  ): Promise<boolean> {
+    if (!position) return true;
+
+    try {
+      await this.locate(selector).first().waitFor({ state: "visible", timeout });
+      return true;
+    } catch {
+      console.log(`      ↪ ${selector} not found, using coordinates ${position.x},${position.y}`);
+      return false;
+    }
+  }
+
+  private async assert(
+    step: Extract<FlowStep, { action: "assert" }>,
+    timeout: number,
+  ): Promise<void> {
+    const locator = this.locate(step.selector).first();
+    const state = step.visible === false ? "hidden" : "visible";
+
+    try {
+      await locator.waitFor({ state, timeout });
+    } catch {
+      throw new Error(`expected ${step.selector} to be ${state}`);
+    }
+
+    if (step.text !== undefined) {
+      const content = (await locator.textContent()) || "";
+      if (!content.includes(step.text)) {
+        throw new Error(`expected ${step.selector} to contain "${step.text}", got "${content.trim()}"`);
+      }
+    }
+  }
+
+  private describe(step: FlowStep): string {
+    switch (step.action) {
+      case "goto":
+        return `goto ${step.url}`;
+      // Values are not logged: they may be credentials
+      case "type":
+        return `type ${step.text.length} characters into ${step.selector}`;
+      case "fill":
+        return `fill ${step.selector} with ${step.value.length} characters`;
+      case "scroll":
+        if (step.to) {
+          return `scroll ${step.container || "document"} to ${step.to.x},${step.to.y}`;
+        }
+        return step.selector ? `scroll to ${step.selector}` : `scroll by ${step.x ?? 0},${step.y ?? 0}`;
+      case "wait":
+        return step.selector ? `wait for ${step.selector}` : `wait ${step.ms ?? 0}ms`;
+      case "press":
+        return `press ${step.key}${step.selector ? ` on ${step.selector}` : ""}`;
+      case "drag": {
+        const start = step.path[0];
+        const end = step.path[step.path.length - 1];
+        return `drag ${start?.x},${start?.y} → ${end?.x},${end?.y}`;
+      }
+      default:
+        return `${step.action} ${step.selector}`;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Formatting helpers
+ *
+ * Shared by the session summary (TraceWriter), the console output of a
+ * capture and the md/prompt exports, so each describes things the same way.
+ */
+
+import { AnimationKeyframe, DeviceEmulation } from "./types";
+
+/**
+ * Format a captured keyframe as "50%: opacity: 0.5; transform: ..."
+ */
+export function formatKeyframe(frame: AnimationKeyframe): string {
+  const declarations = Object.entries(frame)
+    .filter(([prop]) => prop !== "offset" && prop !== "composite")
+    .map(([prop, value]) => `${prop}: ${value}`)
+    .join("; ");
+  return `${Math.round(frame.offset * 100)}%: ${declarations}`;
+}
+
+/**
+ * Describe the emulated device, e.g. "iPhone 13 (390x664 @3x, mobile, touch)"
+ */
+export function describeEmulation(emulation: DeviceEmulation): string {
+  const { viewport, deviceScaleFactor, isMobile, hasTouch } = emulation;
+  const traits = [
+    `${viewport.width}x${viewport.height} @${deviceScaleFactor}x`,
+    isMobile ? "mobile" : "desktop",
+    ...(hasTouch ? ["touch"] : []),
+  ];
+  return `${emulation.device || "custom viewport"} (${traits.join(", ")})`;
+}
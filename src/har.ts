@@ -0,0 +1,180 @@
+/**
+ * HAR Export
+ *
+ * Converts the network traces of a session into an HTTP Archive (HAR 1.2),
+ * so the requests behind a loading or optimistic-update animation can be
+ * inspected in DevTools or served again by a mock.
+ */
+
+import { NetworkBody, NetworkRequest, TraceRecord } from "./types";
+import { LoadedSession } from "./replay";
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarCookie {
+  name: string;
+  value: string;
+}
+
+interface HarPage {
+  id: string;
+  startedDateTime: string;
+  title: string;
+  pageTimings: {};
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarCookie[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string; params?: HarHeader[] };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarCookie[];
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      /** "base64" for binary bodies (as recorded by the browser) */
+      encoding?: string;
+      comment?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: {};
+  timings: { send: number; wait: number; receive: number };
+  /** Error text of a failed or aborted request (Chrome's HAR extension field) */
+  _error?: string;
+  _resourceType?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Build a HAR from the network traces of a session
+ */
+export function buildHar(session: LoadedSession): Har {
+  const pages = new Map<string, HarPage>();
+  const entries: HarEntry[] = [];
+
+  for (const trace of session.traces) {
+    const pageId = trace.pageId || "page-1";
+    if (!pages.has(pageId)) {
+      pages.set(pageId, {
+        id: pageId,
+        startedDateTime: new Date(trace.ts).toISOString(),
+        title: trace.url,
+        pageTimings: {},
+      });
+    }
+
+    if (trace.type !== "network" || !trace.network) continue;
+    for (const request of trace.network) {
+      entries.push(toEntry(request, trace));
+    }
+  }
+
+  entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "capture-anim", version: "1.0.0" },
+      pages: [...pages.values()],
+      entries,
+    },
+  };
+}
+
+function toEntry(request: NetworkRequest, trace: TraceRecord): HarEntry {
+  const requestHeaders = toHeaders(request.requestHeaders);
+  const responseHeaders = toHeaders(request.responseHeaders);
+
+  let queryString: HarHeader[] = [];
+  try {
+    queryString = [...new URL(request.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    // Not an absolute URL (e.g. data:), no query to list
+  }
+
+  return {
+    pageref: trace.pageId || "page-1",
+    // Older sessions only recorded when the response arrived
+    startedDateTime: new Date(request.startedAt ?? trace.ts - request.timing).toISOString(),
+    time: request.timing,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: requestHeaders,
+      queryString,
+      postData: request.requestBody
+        ? { mimeType: request.requestBody.mimeType, text: request.requestBody.text ?? "" }
+        : undefined,
+      headersSize: -1,
+      bodySize: request.requestBody?.size ?? 0,
+    },
+    response: {
+      status: request.status,
+      statusText: request.statusText || "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: responseHeaders,
+      content: toContent(request.responseBody),
+      redirectURL: request.responseHeaders?.location || "",
+      headersSize: -1,
+      bodySize: request.failure ? 0 : request.responseBody?.size ?? -1,
+    },
+    cache: {},
+    // Only the total duration is measured
+    timings: { send: 0, wait: request.timing, receive: 0 },
+    _error: request.failure,
+    _resourceType: request.resourceType,
+  };
+}
+
+function toHeaders(headers: Record<string, string> | undefined): HarHeader[] {
+  return Object.entries(headers || {}).map(([name, value]) => ({ name, value }));
+}
+
+function toContent(body: NetworkBody | undefined): HarEntry["response"]["content"] {
+  if (!body) {
+    return { size: 0, mimeType: "" };
+  }
+  return {
+    size: body.size,
+    mimeType: body.mimeType,
+    text: body.text,
+    comment: body.truncated
+      ? "Body truncated by the capture size limit"
+      : body.text === undefined
+        ? "Body not captured (only JSON bodies are kept)"
+        : undefined,
+  };
+}
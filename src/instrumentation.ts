@@ -5,16 +5,57 @@
  * It runs in the page context and communicates back to Playwright
  */
 
-export function getInstrumentationScript(): string {
+import { CaptureConfig, getPageSettings } from "./config";
+import { StableSelectorEngine } from "./selectors";
+import { DOMDiffCompressor } from "./dom-diff";
+import { Redactor } from "./redaction";
+import { bundleClasses } from "./page-bundle";
+
+export interface InstrumentationOptions {
+  /** Record animated properties on every frame while an effect runs */
+  sampleFrames?: boolean;
+  /** Capture tuning; each document resolves the overrides for its own URL */
+  config?: CaptureConfig;
+  /** Request start/mid/after element screenshots for interactions */
+  screenshots?: boolean;
+  /** Measure frames, long tasks and layout shifts after interactions */
+  performance?: boolean;
+}
+
+export function getInstrumentationScript(
+  options: InstrumentationOptions = {},
+): string {
+  const { config = {}, ...flags } = options;
+  const pageOptions = {
+    sampleFrames: false,
+    screenshots: false,
+    performance: false,
+    ...flags,
+    ...getPageSettings(config),
+  };
+
   return `
 (function() {
   'use strict';
   
-  // Stable Selector Engine (inline)
-  ${getStableSelectorEngineInline()}
+  const config = ${JSON.stringify(pageOptions)};
+  
+  // The script runs again in every document, so overrides match the URL
+  // navigated to rather than the one the capture started on
+  const settings = Object.assign({}, config.settings);
+  for (const override of config.overrides) {
+    if (new RegExp(override.pattern).test(location.href)) {
+      Object.assign(settings, override.settings);
+    }
+  }
+  
+  // Elements in cross-origin frames cannot be addressed from the top document
+  for (let win = window; win !== win.top; win = win.parent) {
+    if (!win.frameElement) return;
+  }
   
-  // DOM Diff Engine (inline)
-  ${getDOMDiffEngineInline()}
+  // Stable Selector Engine and DOM Diff Engine (the Node-side classes)
+  ${bundleClasses(StableSelectorEngine, DOMDiffCompressor, Redactor)}
   
   // State management
   const state = {
@@ -23,21 +64,128 @@ export function getInstrumentationScript(): string {
     lastEventTime: 0,
     pendingMutations: [],
     mutationTimer: null,
+    seenAnimations: new WeakSet(),
+    animationScanPending: false,
+    activeSamplers: new WeakSet(),
+    scrollStyles: new WeakMap(),
+    visibleElements: new Set(),
+    pinnedElements: new Set(),
+    observedCount: 0,
+    intersectionObserver: null,
+    mutationWatchers: new Set(),
+    gestures: new Map(),
+    gestureClickUntil: 0,
+    handledEvents: new WeakSet(),
+    shadowRoots: new WeakSet(),
+    mutationObserver: null,
+    currentUrl: location.href,
+    styleRules: new WeakMap(),
+    rulesReported: new Set(),
+    longTasks: [],
+    layoutShifts: [],
   };
   
   // Meaningful style properties to track
-  const MEANINGFUL_STYLES = [
-    'display', 'visibility', 'opacity', 'transform', 'transition', 'animation',
-    'position', 'top', 'left', 'right', 'bottom', 'width', 'height', 'z-index',
-    'overflow', 'clip-path', 'filter', 'backdrop-filter'
+  const MEANINGFUL_STYLES = settings.meaningfulStyles;
+  
+  // Pseudo-elements snapshotted alongside their element (when rendered)
+  const PSEUDO_ELEMENTS = ['::before', '::after'];
+  const PSEUDO_STATES = [
+    ':hover', ':active', ':focus', ':focus-visible', ':focus-within',
+    ':checked', ':disabled', ':invalid', ':open'
+  ];
+  // User-action pseudo-classes ignored when matching rules to an element,
+  // so the custom properties found do not depend on the current state
+  const USER_ACTION_PSEUDO = /:(?:hover|active|focus(?:-visible|-within)?)\\b/g;
+  const PSEUDO_ELEMENT_SELECTOR = /::?(?:before|after)\\b/g;
+  const VAR_REFERENCE = /var\\(\\s*(--[\\w-]+)/g;
+  const MAX_CUSTOM_PROPERTIES = 20;
+  
+  // Source CSS rules reported for profiled elements
+  const SOURCE_RULE_PROPERTIES = /^(?:transition|animation|translate|scale|rotate|--)/;
+  const MAX_SOURCE_RULES = 20;
+  const MAX_RULE_TEXT = 2000;
+  
+  // Effect windows (after screenshot, performance measurement) last until
+  // the element's own transitions/animations finish
+  const EFFECT_MARGIN_MS = 50;
+  const EFFECT_MAX_MS = 2000;
+  const SCREENSHOT_PADDING = 8;      // px around the element (shadows, ripples)
+  
+  // Rendering measurement: script-driven effects declare no duration
+  const PERF_MIN_WINDOW_MS = 500;
+  const FRAME_BUDGET_MS = 1000 / 60;
+  const PERF_ENTRY_RETENTION_MS = 10000;
+  
+  // Properties recorded per frame in sampling mode
+  const SAMPLED_STYLES = [
+    'transform', 'opacity', 'width', 'height', 'top', 'left', 'right', 'bottom',
+    'filter', 'clip-path', 'color', 'background-color', 'box-shadow', 'border-radius'
   ];
+  const SAMPLE_MAX_MS = 5000;     // Hard cap for infinite/looping effects
+  const SAMPLE_IDLE_FRAMES = 10;  // Unchanged frames before a moving curve ends
+  const SAMPLE_WAIT_FRAMES = 30;  // Frames to wait for movement to begin
+  
+  // Properties that scroll-linked effects (parallax, sticky headers) change
+  const SCROLL_LINKED_STYLES = [
+    'transform', 'opacity', 'top', 'height', 'filter', 'clip-path',
+    'background-color', 'background-position', 'box-shadow'
+  ];
+  const SCROLL_THROTTLE_MS = 100;
+  const REVEAL_SETTLE_MS = 600;       // Time for reveal-on-scroll effects to finish
+  const MAX_SCROLL_CANDIDATES = 1000; // Cap on elements watched for viewport entry
+  
+  const KEY_SETTLE_MS = 300;    // Window for UI effects caused by a key press
+  const MAX_DOM_EFFECTS = 10;
+  const ROUTE_SETTLE_MS = 600;  // Time for route transitions to swap views
+  
+  // Pointer gestures
+  const GESTURE_MOTION_STYLES = ['transform', 'translate', 'left', 'top'];
+  const GESTURE_SAMPLE_MS = 16;      // Min spacing of recorded pointer path points
+  const MAX_GESTURE_POINTS = 200;
+  const MAX_GESTURE_ANCESTORS = 5;   // Target plus containers checked for movement
+  const GESTURE_MIN_DISTANCE = 10;   // Shorter movement is a tap or long-press
+  const LONG_PRESS_MS = 500;
+  const SWIPE_MAX_MS = 500;
+  const SWIPE_VELOCITY = 0.5;        // px/ms at release
+  const VELOCITY_WINDOW_MS = 100;
+  const GESTURE_SETTLE_MS = 2000;    // Max tracking after release (momentum, snap-back)
+  const GESTURE_MAX_MS = 30000;      // Gestures whose release is never seen are dropped
+  const GESTURE_CLICK_MS = 100;
+  
+  const MUTATION_OPTIONS = {
+    childList: true,
+    attributes: true,
+    attributeOldValue: true,
+    characterData: true,
+    characterDataOldValue: true,
+    subtree: true,
+    attributeFilter: settings.observedAttributes
+  };
   
   // Initialize selector engine
-  const selectorEngine = new StableSelectorEngine();
-  const diffEngine = new DOMDiffCompressor();
+  const selectorEngine = new StableSelectorEngine({
+    ignoreAttributes: settings.ignoredAttributes,
+    preferredAttributes: settings.preferredAttributes,
+    maxDepth: settings.selectorMaxDepth
+  });
+  // Masks sensitive fields and text before anything leaves the page
+  const redactor = new Redactor({
+    selectors: settings.redactSelectors,
+    patterns: settings.redactPatterns,
+    attributes: settings.redactAttributes
+  });
+  const diffEngine = new DOMDiffCompressor({
+    meaningfulStyles: settings.meaningfulStyles,
+    ignoreAttributes: settings.ignoredAttributes,
+    maxDiffs: settings.mutationMaxDiffs,
+    subtreeMaxDepth: settings.subtreeMaxDepth,
+    subtreeMaxNodes: settings.subtreeMaxNodes
+  }, redactor);
   
   /**
-   * Capture computed styles for an element
+   * Capture computed styles for an element, its rendered ::before/::after
+   * ('::after.transform') and the custom properties it uses ('--accent')
    */
   function captureStyles(element) {
     if (!(element instanceof HTMLElement)) return {};
@@ -52,9 +200,210 @@ export function getInstrumentationScript(): string {
       }
     }
     
+    for (const pseudo of PSEUDO_ELEMENTS) {
+      const pseudoComputed = window.getComputedStyle(element, pseudo);
+      const content = pseudoComputed.getPropertyValue('content');
+      if (!content || content === 'none' || content === 'normal') continue;
+      
+      styles[pseudo + '.content'] = content;
+      for (const prop of MEANINGFUL_STYLES) {
+        const value = pseudoComputed.getPropertyValue(prop);
+        if (value) {
+          styles[pseudo + '.' + prop] = value;
+        }
+      }
+    }
+    
+    for (const name of getUsedCustomProperties(element)) {
+      const value = computed.getPropertyValue(name).trim();
+      if (value) {
+        styles[name] = value;
+      }
+    }
+    
     return styles;
   }
   
+  /**
+   * Custom properties referenced by the element's inline style and by rules
+   * matching it or its pseudo-elements
+   */
+  function getUsedCustomProperties(element) {
+    const names = new Set();
+    collectVarNames(element.getAttribute('style') || '', names);
+    
+    for (const entry of getStyleRules(element.getRootNode()).rules) {
+      if (names.size >= MAX_CUSTOM_PROPERTIES) break;
+      if (entry.varNames.size > 0 && matchesRule(element, entry)) {
+        entry.varNames.forEach(name => names.add(name));
+      }
+    }
+    
+    return Array.from(names).slice(0, MAX_CUSTOM_PROPERTIES);
+  }
+  
+  function collectVarNames(text, names) {
+    for (const match of text.matchAll(VAR_REFERENCE)) {
+      names.add(match[1]);
+    }
+  }
+  
+  /**
+   * Whether a rule applies to the element in any state (':hover' rules
+   * included) or to one of its pseudo-elements
+   */
+  function matchesRule(element, entry) {
+    try {
+      return element.matches(entry.matchSelector);
+    } catch {
+      return false; // Nested or engine-specific selectors are skipped
+    }
+  }
+  
+  /**
+   * Split a selector list on top-level commas
+   */
+  function splitSelectorList(text) {
+    const parts = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if (char === '(' || char === '[') depth++;
+      if (char === ')' || char === ']') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+    return parts.filter(Boolean);
+  }
+  
+  /**
+   * Style rules (one entry per selector in a list) and @keyframes of a
+   * document or shadow root, cached until its stylesheets or their rule
+   * counts change
+   */
+  function getStyleRules(root) {
+    const sheets = Array.from(root.styleSheets || []).concat(root.adoptedStyleSheets || []);
+    const readable = [];
+    let signature = '';
+    for (const sheet of sheets) {
+      try {
+        signature += sheet.cssRules.length + ',';
+        readable.push(sheet);
+      } catch {
+        // Cross-origin stylesheets cannot be read
+      }
+    }
+    
+    const cached = state.styleRules.get(root);
+    if (cached && cached.signature === signature) return cached;
+    
+    const rules = [];
+    const keyframes = new Map();
+    const visit = (ruleList, media, source) => {
+      for (const rule of Array.from(ruleList)) {
+        if (typeof CSSKeyframesRule !== 'undefined' && rule instanceof CSSKeyframesRule) {
+          keyframes.set(rule.name, rule.cssText);
+          continue;
+        }
+        if (rule.selectorText && rule.style) {
+          const varNames = new Set();
+          collectVarNames(rule.style.cssText, varNames);
+          for (const selector of splitSelectorList(rule.selectorText)) {
+            rules.push({
+              rule,
+              selector,
+              matchSelector: selector
+                .replace(PSEUDO_ELEMENT_SELECTOR, '')
+                .replace(USER_ACTION_PSEUDO, '') || '*',
+              states: selector.match(USER_ACTION_PSEUDO) || [],
+              pseudoElement: (selector.match(PSEUDO_ELEMENT_SELECTOR) || [])[0],
+              media,
+              source,
+              varNames
+            });
+          }
+        }
+        // @media, @supports, @layer and nested rules
+        if (rule.cssRules) {
+          visit(rule.cssRules, rule.media ? rule.media.mediaText : media, source);
+        }
+      }
+    };
+    readable.forEach(sheet => visit(sheet.cssRules, undefined, sheet.href || 'inline'));
+    
+    const result = { signature, rules, keyframes };
+    state.styleRules.set(root, result);
+    return result;
+  }
+  
+  /**
+   * Whether a rule declares anything that shapes motion or visibility
+   */
+  function isRelevantRule(style) {
+    for (let i = 0; i < style.length; i++) {
+      const prop = style.item(i);
+      if (MEANINGFUL_STYLES.includes(prop) || SOURCE_RULE_PROPERTIES.test(prop)) return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Emit the author's CSS rules and @keyframes for an element, once per selector
+   */
+  function reportSourceRules(element) {
+    if (!(element instanceof HTMLElement)) return;
+    
+    const selector = selectorEngine.generate(element);
+    if (state.rulesReported.has(selector)) return;
+    state.rulesReported.add(selector);
+    
+    const { rules: entries, keyframes } = getStyleRules(element.getRootNode());
+    const rules = [];
+    const animationNames = new Set();
+    const addAnimationNames = (value) => {
+      value.split(',').map(name => name.trim())
+        .filter(name => name && name !== 'none')
+        .forEach(name => animationNames.add(name));
+    };
+    
+    for (const entry of entries) {
+      if (rules.length >= MAX_SOURCE_RULES) break;
+      if (!isRelevantRule(entry.rule.style) || !matchesRule(element, entry)) continue;
+      
+      rules.push({
+        selector: entry.selector,
+        cssText: entry.rule.style.cssText.substring(0, MAX_RULE_TEXT),
+        states: entry.states.length > 0 ? entry.states : undefined,
+        pseudoElement: entry.pseudoElement,
+        media: entry.media,
+        source: entry.source
+      });
+      addAnimationNames(entry.rule.style.getPropertyValue('animation-name'));
+    }
+    
+    addAnimationNames(window.getComputedStyle(element).getPropertyValue('animation-name'));
+    for (const pseudo of PSEUDO_ELEMENTS) {
+      addAnimationNames(window.getComputedStyle(element, pseudo).getPropertyValue('animation-name'));
+    }
+    
+    const usedKeyframes = Array.from(animationNames)
+      .filter(name => keyframes.has(name))
+      .map(name => ({ name, cssText: keyframes.get(name).substring(0, MAX_RULE_TEXT) }));
+    
+    if (rules.length === 0 && usedKeyframes.length === 0) return;
+    
+    sendTrace({
+      ts: Date.now(),
+      type: 'rules',
+      rules: { selector, rules, keyframes: usedKeyframes }
+    });
+  }
+  
   /**
    * Capture DOM snapshot
    */
@@ -63,19 +412,247 @@ export function getInstrumentationScript(): string {
     
     return {
       selector: selectorEngine.generate(element),
-      html: element.outerHTML.substring(0, 500), // Limit size
-      attributes: diffEngine.serializeNode(element).attributes,
+      html: redactor.redactHtml(element, 500), // Limit size
+      attributes: diffEngine.serializeNode(element).attributes, // Redacted by the engine
       classes: Array.from(element.classList),
-      text: element.textContent?.substring(0, 200)
+      text: redactor.redactText(element, element.textContent || '').substring(0, 200),
+      states: PSEUDO_STATES.filter(pseudo => {
+        try {
+          return element.matches(pseudo);
+        } catch {
+          return false; // Unsupported by this engine (e.g. ':open')
+        }
+      })
+    };
+  }
+  
+  /**
+   * Convert a camelCased keyframe property to its CSS name
+   */
+  function toCSSProperty(name) {
+    if (name === 'cssFloat') return 'float';
+    if (name === 'cssOffset') return 'offset';
+    return name.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase());
+  }
+  
+  /**
+   * Serialize a Web Animations API animation (keyframes + effect timing)
+   */
+  function serializeAnimation(animation, detectedBy) {
+    const effect = animation.effect;
+    if (!effect || typeof effect.getKeyframes !== 'function') return null;
+    
+    const target = effect.target;
+    if (!(target instanceof Element)) return null;
+    
+    let kind = 'web-animation';
+    let name = animation.id || '';
+    if (typeof CSSAnimation !== 'undefined' && animation instanceof CSSAnimation) {
+      kind = 'css-animation';
+      name = animation.animationName;
+    } else if (typeof CSSTransition !== 'undefined' && animation instanceof CSSTransition) {
+      kind = 'css-transition';
+      name = animation.transitionProperty;
+    }
+    
+    const keyframes = effect.getKeyframes().map(frame => {
+      const keyframe = { offset: frame.computedOffset ?? frame.offset ?? 0 };
+      for (const key in frame) {
+        if (key === 'offset' || key === 'computedOffset') continue;
+        const value = frame[key];
+        if (value === null || value === undefined) continue;
+        keyframe[key === 'easing' || key === 'composite' ? key : toCSSProperty(key)] = value;
+      }
+      return keyframe;
+    });
+    
+    const timing = effect.getTiming();
+    
+    // Gecko and WebKit apply a transition's timing function to its first
+    // keyframe instead of the effect; hoist it so profiles match across engines
+    let easing = timing.easing;
+    if (kind === 'css-transition' && easing === 'linear' && keyframes.length === 2 &&
+        keyframes[0].easing && keyframes[0].easing !== 'linear') {
+      easing = keyframes[0].easing;
+      keyframes[0].easing = 'linear';
+    }
+    
+    return {
+      kind,
+      name,
+      selector: selectorEngine.generate(target),
+      pseudoElement: effect.pseudoElement || undefined,
+      keyframes,
+      timing: {
+        duration: typeof timing.duration === 'number' ? timing.duration : 0,
+        delay: timing.delay || 0,
+        endDelay: timing.endDelay || 0,
+        iterations: timing.iterations === Infinity ? 'infinite' : timing.iterations,
+        direction: timing.direction,
+        fill: timing.fill,
+        easing
+      },
+      timeline: serializeTimeline(animation.timeline),
+      playState: animation.playState,
+      detectedBy
     };
   }
   
+  /**
+   * Describe the timeline driving an animation (scroll-timeline aware)
+   */
+  function serializeTimeline(timeline) {
+    if (typeof ViewTimeline !== 'undefined' && timeline instanceof ViewTimeline) {
+      return {
+        type: 'view',
+        source: timeline.subject ? selectorEngine.generate(timeline.subject) : undefined,
+        axis: timeline.axis
+      };
+    }
+    if (typeof ScrollTimeline !== 'undefined' && timeline instanceof ScrollTimeline) {
+      return {
+        type: 'scroll',
+        source: describeScrollContainer(timeline.source),
+        axis: timeline.axis
+      };
+    }
+    return undefined;
+  }
+  
+  /**
+   * Emit an 'animation' trace for every running animation not yet reported
+   */
+  function captureAnimations(detectedBy) {
+    if (typeof document.getAnimations !== 'function') return;
+    
+    for (const animation of document.getAnimations()) {
+      if (state.seenAnimations.has(animation)) continue;
+      state.seenAnimations.add(animation);
+      
+      const captured = serializeAnimation(animation, detectedBy);
+      if (!captured) continue;
+      
+      sampleCurve(animation.effect.target, 'animation', captured.pseudoElement);
+      
+      sendTrace({
+        ts: Date.now(),
+        type: 'animation',
+        animation: captured
+      });
+      reportSourceRules(animation.effect.target);
+    }
+  }
+  
+  /**
+   * Record animated properties every frame until the element settles
+   */
+  function sampleCurve(element, source, pseudoElement) {
+    if (!config.sampleFrames || !(element instanceof Element)) return;
+    if (!pseudoElement && state.activeSamplers.has(element)) return;
+    if (!pseudoElement) state.activeSamplers.add(element);
+    
+    const startedAt = Date.now();
+    const origin = performance.now();
+    const samples = [];
+    let lastSerialized = null;
+    let idleFrames = 0;
+    let moved = false;
+    
+    function read() {
+      const computed = window.getComputedStyle(element, pseudoElement || null);
+      const values = {};
+      for (const prop of SAMPLED_STYLES) {
+        values[prop] = computed.getPropertyValue(prop);
+      }
+      return values;
+    }
+    
+    function finish() {
+      if (!pseudoElement) state.activeSamplers.delete(element);
+      if (!moved) return;
+      
+      // Drop the trailing idle frames, keeping one at rest
+      samples.splice(samples.length - idleFrames + 1);
+      
+      const first = samples[0].values;
+      const properties = SAMPLED_STYLES.filter(prop =>
+        samples.some(sample => sample.values[prop] !== first[prop])
+      );
+      for (const sample of samples) {
+        const values = {};
+        for (const prop of properties) values[prop] = sample.values[prop];
+        sample.values = values;
+      }
+      
+      sendTrace({
+        ts: startedAt,
+        type: 'curve',
+        curve: {
+          selector: selectorEngine.generate(element),
+          pseudoElement: pseudoElement || undefined,
+          source,
+          properties,
+          samples
+        }
+      });
+    }
+    
+    function frame(now) {
+      if (!state.recording) return finish();
+      
+      const values = read();
+      const serialized = JSON.stringify(values);
+      samples.push({ t: Math.round(now - origin), values });
+      
+      if (lastSerialized !== null && serialized !== lastSerialized) {
+        moved = true;
+        idleFrames = 0;
+      } else {
+        idleFrames++;
+      }
+      lastSerialized = serialized;
+      
+      const elapsed = now - origin;
+      if (elapsed > SAMPLE_MAX_MS ||
+          (moved && idleFrames >= SAMPLE_IDLE_FRAMES) ||
+          (!moved && samples.length >= SAMPLE_WAIT_FRAMES)) {
+        return finish();
+      }
+      requestAnimationFrame(frame);
+    }
+    
+    requestAnimationFrame(frame);
+  }
+  
+  /**
+   * Coalesce animationstart/transitionrun bursts into one scan per frame
+   */
+  function scheduleAnimationScan(event) {
+    if (state.animationScanPending) return;
+    state.animationScanPending = true;
+    
+    requestAnimationFrame(() => {
+      state.animationScanPending = false;
+      captureAnimations(event.type);
+    });
+  }
+  
   /**
    * Send trace to parent (Playwright)
    */
   function sendTrace(data) {
     if (!state.recording) return;
     
+    // The top-level viewport, which responsive breakpoints depend on; a
+    // cross-origin frame cannot read it, so the page's viewport is used
+    if (!data.viewport) {
+      try {
+        data.viewport = { width: window.top.innerWidth, height: window.top.innerHeight };
+      } catch (error) {
+        // Filled in from the page's viewport size when the trace arrives
+      }
+    }
+    
     if (window.__captureCallback) {
       try {
         window.__captureCallback(data);
@@ -98,12 +675,216 @@ export function getInstrumentationScript(): string {
     };
   }
   
+  /**
+   * Offset of this frame's viewport within the top-level viewport, so
+   * recorded coordinates can be replayed on the page
+   */
+  function getFrameOffset() {
+    let x = 0;
+    let y = 0;
+    for (let win = window; win !== win.top; win = win.parent) {
+      const frame = win.frameElement;
+      if (!frame) break; // Cross-origin parent
+      const rect = frame.getBoundingClientRect();
+      x += rect.left + frame.clientLeft;
+      y += rect.top + frame.clientTop;
+    }
+    return { x, y };
+  }
+  
+  /**
+   * Original event target; event.target is retargeted to the shadow host
+   * for listeners outside the shadow root
+   */
+  function getEventTarget(event) {
+    const path = event.composedPath();
+    return path.length > 0 ? path[0] : event.target;
+  }
+  
+  /**
+   * Parse a computed time list ('0.3s, 150ms') into milliseconds
+   */
+  function parseTimes(value) {
+    return (value || '').split(',').map(time => {
+      const amount = parseFloat(time);
+      if (isNaN(amount)) return 0;
+      return time.trim().endsWith('ms') ? amount : amount * 1000;
+    });
+  }
+  
+  /**
+   * Longest transition or single animation run declared on the element
+   */
+  function getDeclaredEffectMs(element) {
+    const computed = window.getComputedStyle(element);
+    let longest = 0;
+    for (const kind of ['transition', 'animation']) {
+      const durations = parseTimes(computed.getPropertyValue(kind + '-duration'));
+      const delays = parseTimes(computed.getPropertyValue(kind + '-delay'));
+      durations.forEach((duration, i) => {
+        longest = Math.max(longest, duration + (delays[i % delays.length] || 0));
+      });
+    }
+    return longest;
+  }
+  
+  /**
+   * Time for the element's declared effects to play out, within bounds
+   */
+  function getEffectWindowMs(element) {
+    return Math.min(
+      Math.max(settings.settleDelay, getDeclaredEffectMs(element) + EFFECT_MARGIN_MS),
+      EFFECT_MAX_MS
+    );
+  }
+  
+  /**
+   * Record long tasks and layout shifts as they happen (Chromium only;
+   * other engines report frames alone)
+   */
+  function observePerformance() {
+    const observe = (type, entries, toEntry) => {
+      try {
+        new PerformanceObserver(list => {
+          for (const entry of list.getEntries()) {
+            entries.push(toEntry(entry));
+          }
+          const cutoff = Date.now() - PERF_ENTRY_RETENTION_MS;
+          while (entries.length > 0 && entries[0].end < cutoff) entries.shift();
+        }).observe({ type, buffered: false });
+      } catch (error) {
+        // Entry type not supported by this engine
+      }
+    };
+    
+    observe('longtask', state.longTasks, entry => ({
+      start: performance.timeOrigin + entry.startTime,
+      end: performance.timeOrigin + entry.startTime + entry.duration,
+      duration: entry.duration
+    }));
+    observe('layout-shift', state.layoutShifts, entry => ({
+      start: performance.timeOrigin + entry.startTime,
+      end: performance.timeOrigin + entry.startTime,
+      value: entry.value
+    }));
+  }
+  
+  /**
+   * Count frames, dropped frames, long tasks and layout shifts while the
+   * element's effect plays; Chromium adds style/layout counts over CDP.
+   * The measurement is only reported once the caller sets handle.trigger,
+   * so interactions that turn out to change nothing cost no trace.
+   */
+  function measureRendering(element) {
+    if (!config.performance || typeof requestAnimationFrame === 'undefined') return null;
+    
+    const handle = { trigger: null };
+    const startedAt = Date.now();
+    const windowMs = Math.max(PERF_MIN_WINDOW_MS, getEffectWindowMs(element));
+    const frameTimes = [];
+    
+    const readMetrics = () => window.__captureMetrics
+      ? Promise.resolve(window.__captureMetrics()).catch(() => null)
+      : Promise.resolve(null);
+    const startMetrics = readMetrics();
+    
+    const finish = async () => {
+      const before = await startMetrics;
+      const after = before ? await readMetrics() : null;
+      const endedAt = Date.now();
+      if (!handle.trigger || !state.recording) return;
+      
+      let droppedFrames = 0;
+      let longestFrame = 0;
+      for (let i = 1; i < frameTimes.length; i++) {
+        const interval = frameTimes[i] - frameTimes[i - 1];
+        longestFrame = Math.max(longestFrame, interval);
+        if (interval > FRAME_BUDGET_MS * 1.5) {
+          droppedFrames += Math.round(interval / FRAME_BUDGET_MS) - 1;
+        }
+      }
+      
+      const during = entry => entry.end >= startedAt && entry.start <= endedAt;
+      const longTasks = state.longTasks.filter(during);
+      const shifts = state.layoutShifts.filter(during);
+      
+      const metrics = {
+        trigger: handle.trigger,
+        duration: endedAt - startedAt,
+        frames: frameTimes.length,
+        droppedFrames,
+        longestFrame: Math.round(longestFrame),
+        longTasks: longTasks.length,
+        longTaskTime: Math.round(longTasks.reduce((sum, task) => sum + task.duration, 0)),
+        layoutShift: Math.round(shifts.reduce((sum, shift) => sum + shift.value, 0) * 1000) / 1000
+      };
+      
+      if (before && after) {
+        metrics.pageStyleRecalcs = after.RecalcStyleCount - before.RecalcStyleCount;
+        metrics.pageStyleRecalcTime = Math.round((after.RecalcStyleDuration - before.RecalcStyleDuration) * 1000);
+        metrics.pageLayouts = after.LayoutCount - before.LayoutCount;
+        metrics.pageLayoutTime = Math.round((after.LayoutDuration - before.LayoutDuration) * 1000);
+      }
+      
+      sendTrace({ ts: endedAt, type: 'performance', performance: metrics });
+    };
+    
+    const frame = (now) => {
+      frameTimes.push(now);
+      if (Date.now() - startedAt < windowMs) {
+        requestAnimationFrame(frame);
+      } else {
+        finish();
+      }
+    };
+    requestAnimationFrame(frame);
+    
+    return handle;
+  }
+  
+  /**
+   * Ask the engine for start/mid/after screenshots of the element; returns
+   * the id to put on the trace (undefined when screenshots are off)
+   */
+  function requestScreenshots(element) {
+    if (!config.screenshots || !window.__captureScreenshots) return undefined;
+    
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return undefined;
+    
+    const offset = getFrameOffset();
+    const id = Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8);
+    const afterMs = getEffectWindowMs(element);
+    
+    try {
+      window.__captureScreenshots({
+        id,
+        afterMs,
+        rect: {
+          x: rect.left + offset.x - SCREENSHOT_PADDING,
+          y: rect.top + offset.y - SCREENSHOT_PADDING,
+          width: rect.width + SCREENSHOT_PADDING * 2,
+          height: rect.height + SCREENSHOT_PADDING * 2
+        }
+      });
+    } catch (error) {
+      return undefined;
+    }
+    return id;
+  }
+  
   /**
    * Handle interaction events
    */
   function handleInteraction(event) {
-    const target = event.target;
+    const target = getEventTarget(event);
     if (!(target instanceof HTMLElement)) return;
+    if (event.type === 'click' && Date.now() < state.gestureClickUntil) return;
+    
+    const startedAt = Date.now();
+    sampleCurve(target, 'interaction');
+    const screenshotId = requestScreenshots(target);
+    const rendering = measureRendering(target);
     
     // Capture before state
     const beforeDOM = captureSnapshot(target);
@@ -115,6 +896,9 @@ export function getInstrumentationScript(): string {
         const afterDOM = captureSnapshot(target);
         const afterStyle = captureStyles(target);
         
+        // Script-driven animations (element.animate) fire no DOM events
+        captureAnimations('interaction');
+        
         // Check if anything changed
         const hasChanges = JSON.stringify(beforeStyle) !== JSON.stringify(afterStyle) ||
                           beforeDOM.classes.join(',') !== afterDOM.classes.join(',');
@@ -123,15 +907,18 @@ export function getInstrumentationScript(): string {
           return; // Skip non-interactive events with no visual effect
         }
         
+        const offset = getFrameOffset();
         const trace = {
-          ts: Date.now(),
+          ts: startedAt,
           type: 'interaction',
           event: {
             kind: event.type,
             selector: selectorEngine.generate(target),
-            x: event.clientX,
-            y: event.clientY,
-            value: target.value,
+            x: event.clientX !== undefined ? event.clientX + offset.x : undefined,
+            y: event.clientY !== undefined ? event.clientY + offset.y : undefined,
+            value: typeof target.value === 'string'
+              ? redactor.redactValue(target, target.value)
+              : undefined,
             key: event.key
           },
           before: {
@@ -148,272 +935,949 @@ export function getInstrumentationScript(): string {
               computed: afterStyle
             }
           },
-          viewport: {
-            width: window.innerWidth,
-            height: window.innerHeight
-          }
+          screenshotId
         };
         
         sendTrace(trace);
-      }, 50); // Wait 50ms for changes
+        if (rendering) {
+          rendering.trigger = { ts: startedAt, selector: trace.event.selector, event: event.type };
+        }
+        reportSourceRules(target);
+      }, settings.settleDelay); // Wait for changes
     });
   }
   
   /**
-   * Handle mutations (debounced)
+   * Keys worth recording: navigation/control keys, shortcuts, and any key
+   * outside text fields (plain typing is already captured as input)
    */
-  const processMutations = debounce(function() {
-    if (state.pendingMutations.length === 0) return;
-    
-    const mutations = state.pendingMutations.splice(0);
-    const compressed = diffEngine.compressMutations(mutations);
+  function isTrackedKey(event) {
+    if (event.ctrlKey || event.metaKey || event.altKey) return true;
+    if (event.key.length > 1 && !['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(event.key)) {
+      return true;
+    }
     
-    // Only send if significant
-    if (compressed.affectedElements > 0) {
-      const changes = mutations
-        .filter(m => m.target instanceof HTMLElement)
-        .map(m => {
-          const element = m.target;
-          return {
-            selector: selectorEngine.generate(element),
-            type: m.type,
-            details: {
-              attributeName: m.attributeName,
-              oldValue: m.oldValue,
-              addedNodes: m.addedNodes.length,
-              removedNodes: m.removedNodes.length
-            }
-          };
-        })
-        .slice(0, 5); // Limit to first 5 changes
-      
-      sendTrace({
-        ts: Date.now(),
-        type: 'mutation',
-        mutation: {
-          intent: compressed.intent,
-          summary: compressed.summary,
-          affectedElements: compressed.affectedElements,
-          changes
+    const target = getEventTarget(event);
+    const editable = target instanceof HTMLElement &&
+      (target.isContentEditable || target.matches('input, textarea, select'));
+    return !editable;
+  }
+  
+  function isVisible(element) {
+    if (!(element instanceof Element) || !element.isConnected) return false;
+    const computed = window.getComputedStyle(element);
+    return computed.display !== 'none' &&
+      computed.visibility !== 'hidden' &&
+      parseFloat(computed.opacity) > 0 &&
+      element.getClientRects().length > 0;
+  }
+  
+  /**
+   * Best-effort selector for a node already removed from the document
+   */
+  function describeDetached(element) {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) return tag + '[id="' + element.id + '"]';
+    const cls = Array.from(element.classList).find(c => c.length >= 3);
+    return cls ? tag + '.' + cls : tag;
+  }
+  
+  /**
+   * Reduce mutations observed after a key press or route change to per-element UI changes
+   */
+  function summarizeDOMEffects(mutations) {
+    const effects = new Map();
+    
+    for (const m of mutations) {
+      if (m.type === 'childList') {
+        for (const node of m.addedNodes) {
+          if (node instanceof Element) {
+            effects.set(node, { element: node, change: 'added' });
+          }
         }
-      });
+        for (const node of m.removedNodes) {
+          if (node instanceof Element && !effects.has(node)) {
+            effects.set(node, {
+              element: node,
+              selector: describeDetached(node),
+              change: 'removed'
+            });
+          }
+        }
+      } else if (m.type === 'attributes' && m.target instanceof Element) {
+        const key = m.target;
+        const attrKey = m.attributeName;
+        if (!effects.has(key)) effects.set(key, { element: key, change: 'attribute', attributes: {} });
+        const effect = effects.get(key);
+        if (effect.change === 'attribute' && !(attrKey in effect.attributes)) {
+          effect.attributes[attrKey] = m.oldValue;
+        }
+      }
     }
     
-  }, 100);
+    const summarized = [];
+    for (const effect of effects.values()) {
+      if (summarized.length >= MAX_DOM_EFFECTS) break;
+      
+      const selector = effect.selector || selectorEngine.generate(effect.element);
+      if (effect.change !== 'attribute') {
+        summarized.push({
+          selector,
+          change: effect.change,
+          visible: effect.change === 'added' ? isVisible(effect.element) : undefined
+        });
+        continue;
+      }
+      
+      for (const [attribute, from] of Object.entries(effect.attributes)) {
+        const to = effect.element.getAttribute(attribute);
+        if (from === to) continue;
+        summarized.push({
+          selector,
+          change: 'attribute',
+          attribute,
+          from: from === null ? undefined : from,
+          to: to === null ? undefined : to,
+          visible: isVisible(effect.element)
+        });
+      }
+    }
+    
+    return summarized;
+  }
   
   /**
-   * Setup event listeners
+   * Handle keydown/keyup: snapshot the target and watch for UI effects
    */
-  function setupListeners() {
-    // Interaction events
-    const events = ['click', 'submit', 'input', 'focus', 'change'];
+  function handleKey(event) {
+    if (!isTrackedKey(event) || event.repeat) return;
     
-    events.forEach(eventType => {
-      document.addEventListener(eventType, handleInteraction, true);
-    });
+    const eventTarget = getEventTarget(event);
+    const target = eventTarget instanceof HTMLElement && eventTarget !== document.body
+      ? eventTarget
+      : null;
+    const startedAt = Date.now();
+    const watcher = [];
+    state.mutationWatchers.add(watcher);
     
-    // Hover with throttling
-    let lastHover = 0;
-    document.addEventListener('mouseover', (e) => {
-      const now = Date.now();
-      if (now - lastHover < 200) return; // Throttle hovers
-      lastHover = now;
+    const screenshotId = target ? requestScreenshots(target) : undefined;
+    const rendering = measureRendering(target || document.body);
+    const beforeDOM = target ? captureSnapshot(target) : null;
+    const beforeStyle = target ? captureStyles(target) : null;
+    
+    setTimeout(() => {
+      state.mutationWatchers.delete(watcher);
+      const keyEffects = summarizeDOMEffects(watcher);
+      
+      // keyup only matters when it changes something (e.g. hold-to-peek)
+      if (event.type === 'keyup' && keyEffects.length === 0) return;
+      
+      const selector = target ? selectorEngine.generate(target) : 'document';
+      const trace = {
+        ts: startedAt,
+        type: 'interaction',
+        event: {
+          kind: event.type,
+          selector,
+          key: event.key,
+          code: event.code,
+          modifiers: {
+            ctrl: event.ctrlKey,
+            alt: event.altKey,
+            shift: event.shiftKey,
+            meta: event.metaKey
+          }
+        },
+        keyEffects,
+        screenshotId
+      };
       
-      if (e.target instanceof HTMLElement && e.target.matches('a, button, [role="button"]')) {
-        handleInteraction(e);
+      if (target) {
+        trace.before = {
+          dom: beforeDOM,
+          style: { selector, computed: beforeStyle }
+        };
+        trace.after = {
+          dom: captureSnapshot(target),
+          style: { selector, computed: captureStyles(target) }
+        };
       }
-    }, true);
+      
+      sendTrace(trace);
+      if (rendering) {
+        rendering.trigger = { ts: startedAt, selector, event: event.type };
+      }
+      if (target) reportSourceRules(target);
+    }, KEY_SETTLE_MS);
+  }
+  
+  /**
+   * Computed styles that position an element moved by a gesture
+   */
+  function captureMotionStyles(element) {
+    const computed = window.getComputedStyle(element);
+    const styles = {};
+    for (const prop of GESTURE_MOTION_STYLES) {
+      styles[prop] = computed.getPropertyValue(prop);
+    }
+    return styles;
+  }
+  
+  /**
+   * Parent element, stepping from a shadow root to its host
+   */
+  function getComposedParent(element) {
+    if (element.parentElement) return element.parentElement;
+    const root = element.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+  }
+  
+  /**
+   * Append a sample, halving the resolution once the list gets too long
+   */
+  function pushGestureSample(list, sample) {
+    list.push(sample);
+    if (list.length > MAX_GESTURE_POINTS) {
+      // Keeps the first and last samples
+      for (let i = list.length - 2; i > 0; i -= 2) {
+        list.splice(i, 1);
+      }
+    }
+  }
+  
+  /**
+   * Start tracking a gesture: pointer path plus the target and its ancestors,
+   * any of which may be what the gesture moves (e.g. a carousel track)
+   */
+  function handlePointerDown(event) {
+    const target = getEventTarget(event);
+    if (!(target instanceof HTMLElement) || !event.isPrimary || event.button > 0) return;
     
-    // Mutation observer
-    const observer = new MutationObserver((mutations) => {
-      state.pendingMutations.push(...mutations);
-      processMutations();
-    });
+    const candidates = [];
+    for (let element = target; element && element !== document.body &&
+         candidates.length < MAX_GESTURE_ANCESTORS; element = getComposedParent(element)) {
+      const rect = element.getBoundingClientRect();
+      candidates.push({
+        element,
+        left: rect.left,
+        top: rect.top,
+        styles: captureMotionStyles(element),
+        offsets: []
+      });
+    }
     
-    observer.observe(document.body, {
-      childList: true,
-      attributes: true,
-      attributeOldValue: true,
-      subtree: true,
-      attributeFilter: ['class', 'style', 'hidden', 'disabled', 'aria-expanded', 'aria-hidden']
-    });
+    const gesture = {
+      target,
+      startedAt: Date.now(),
+      origin: performance.now(),
+      pointerType: event.pointerType,
+      path: [{ t: 0, x: Math.round(event.clientX), y: Math.round(event.clientY) }],
+      candidates,
+      releasedAt: null,
+      idleFrames: 0,
+      native: false,
+      dropElement: null,
+      beforeDOM: captureSnapshot(target),
+      beforeStyle: captureStyles(target)
+    };
+    state.gestures.set(event.pointerId, gesture);
     
-    // Store observer for cleanup
-    window.__mutationObserver = observer;
+    // Element positions are read every frame, through release until they settle
+    function frame(now) {
+      if (!state.recording) return;
+      
+      const t = Math.round(now - gesture.origin);
+      let moving = false;
+      for (const candidate of gesture.candidates) {
+        const rect = candidate.element.getBoundingClientRect();
+        const offset = {
+          t,
+          x: Math.round(rect.left - candidate.left),
+          y: Math.round(rect.top - candidate.top)
+        };
+        const last = candidate.offsets[candidate.offsets.length - 1];
+        if (!last || last.x !== offset.x || last.y !== offset.y) moving = true;
+        pushGestureSample(candidate.offsets, offset);
+      }
+      
+      if (gesture.releasedAt === null && t > GESTURE_MAX_MS) {
+        forgetGesture(gesture);
+        return;
+      }
+      
+      if (gesture.releasedAt !== null) {
+        gesture.idleFrames = moving ? 0 : gesture.idleFrames + 1;
+        if (gesture.idleFrames >= SAMPLE_IDLE_FRAMES || t - gesture.releasedAt > GESTURE_SETTLE_MS) {
+          return finishGesture(gesture);
+        }
+      }
+      requestAnimationFrame(frame);
+    }
+    requestAnimationFrame(frame);
   }
   
   /**
-   * Cleanup
+   * Record a point on the pointer path (throttled)
    */
-  window.__stopCapture = function() {
-    state.recording = false;
-    if (window.__mutationObserver) {
-      window.__mutationObserver.disconnect();
+  function trackGesture(gesture, x, y) {
+    if (!gesture || gesture.releasedAt !== null) return;
+    
+    const t = Math.round(performance.now() - gesture.origin);
+    const last = gesture.path[gesture.path.length - 1];
+    if (t - last.t < GESTURE_SAMPLE_MS) return;
+    pushGestureSample(gesture.path, { t, x: Math.round(x), y: Math.round(y) });
+  }
+  
+  function handlePointerMove(event) {
+    trackGesture(state.gestures.get(event.pointerId), event.clientX, event.clientY);
+  }
+  
+  function handlePointerUp(event) {
+    const gesture = state.gestures.get(event.pointerId);
+    // Native drag and drop cancels the pointer; dragend ends the gesture instead
+    if (!gesture || (event.type === 'pointercancel' && gesture.native)) return;
+    
+    state.gestures.delete(event.pointerId);
+    releaseGesture(gesture, event.clientX, event.clientY);
+  }
+  
+  function forgetGesture(gesture) {
+    for (const [pointerId, active] of state.gestures) {
+      if (active === gesture) state.gestures.delete(pointerId);
     }
-  };
+  }
   
-  // Initialize
-  if (document.readyState === 'loading') {
-    document.addEventListener('DOMContentLoaded', setupListeners);
-  } else {
-    setupListeners();
+  /**
+   * HTML5 drag and drop (sortable lists) continues the gesture with drag events
+   */
+  function activeNativeGesture() {
+    for (const gesture of state.gestures.values()) {
+      if (gesture.native) return gesture;
+    }
+    return null;
   }
   
-  // Send test trace immediately to confirm instrumentation is working
-  if (window.__captureCallback) {
-    try {
-      window.__captureCallback({
-        ts: Date.now(),
-        type: 'test',
-        message: 'Instrumentation loaded successfully'
-      });
-    } catch (e) {
-      console.error('Failed to send test trace:', e);
+  function handleNativeDrag(event) {
+    if (event.type === 'dragstart') {
+      for (const gesture of state.gestures.values()) {
+        if (gesture.releasedAt === null) gesture.native = true;
+      }
+      return;
+    }
+    
+    const gesture = activeNativeGesture();
+    if (!gesture) return;
+    
+    if (event.type === 'dragover') {
+      trackGesture(gesture, event.clientX, event.clientY);
+    } else if (event.type === 'drop') {
+      gesture.dropElement = getEventTarget(event);
+    } else if (event.type === 'dragend') {
+      forgetGesture(gesture);
+      // dragend coordinates are unreliable across browsers; use the last dragover
+      const last = gesture.path[gesture.path.length - 1];
+      releaseGesture(gesture, last.x, last.y);
     }
   }
   
-  console.log('🎬 Animation Capture: Recording started');
-})();
-`;
-}
-
-// Inline version of StableSelectorEngine for injection
-function getStableSelectorEngineInline(): string {
-  return `
-class StableSelectorEngine {
-  constructor() {
-    this.ignoredAttrs = ['data-reactid', 'data-react-checksum', 'data-v-', 'data-svelte-', '_ngcontent-', '_nghost-'];
-    this.preferredAttrs = ['id', 'data-testid', 'data-test', 'data-id', 'name', 'aria-label', 'role', 'type'];
+  /**
+   * Element under the release point that is neither the dragged element,
+   * inside it, nor one of its containers
+   */
+  function findDropTarget(gesture, x, y) {
+    if (gesture.dropElement instanceof HTMLElement) return gesture.dropElement;
+    
+    // Inside a shadow root, the document would only report its host
+    const target = gesture.target;
+    // WebKit only implements elementsFromPoint on the document
+    const root = target.getRootNode();
+    const scope = typeof root.elementsFromPoint === 'function' ? root : document;
+    
+    return scope.elementsFromPoint(x, y).find(element =>
+      element instanceof HTMLElement &&
+      element !== document.body && element !== document.documentElement &&
+      !target.contains(element) && !element.contains(target)
+    ) || null;
   }
   
-  generate(element) {
-    const attrSelector = this.getAttributeSelector(element);
-    if (attrSelector && this.isUnique(element, attrSelector)) return attrSelector;
+  /**
+   * Classify the gesture at release; taps are left to the click listener
+   */
+  function releaseGesture(gesture, x, y) {
+    const t = Math.round(performance.now() - gesture.origin);
+    const start = gesture.path[0];
+    const point = { t, x: Math.round(x), y: Math.round(y) };
+    const last = gesture.path[gesture.path.length - 1];
+    if (point.t > last.t) gesture.path.push(point);
     
-    const classSelector = this.getClassSelector(element);
-    if (classSelector && this.isUnique(element, classSelector)) return classSelector;
+    const dx = point.x - start.x;
+    const dy = point.y - start.y;
+    const distance = Math.round(Math.hypot(dx, dy));
     
-    return this.getStructuralPath(element);
+    if (distance < GESTURE_MIN_DISTANCE && t < LONG_PRESS_MS) {
+      gesture.candidates = [];
+      gesture.releasedAt = t;
+      return;
+    }
+    
+    // Release velocity over the last few path samples (px/ms)
+    const windowStart = gesture.path.find(p => p.t >= t - VELOCITY_WINDOW_MS) || start;
+    const dt = point.t - windowStart.t;
+    const velocity = {
+      x: dt > 0 ? Math.round((point.x - windowStart.x) / dt * 1000) / 1000 : 0,
+      y: dt > 0 ? Math.round((point.y - windowStart.y) / dt * 1000) / 1000 : 0
+    };
+    
+    let type = 'drag';
+    if (distance < GESTURE_MIN_DISTANCE) {
+      type = 'long-press';
+    } else if (t <= SWIPE_MAX_MS && Math.hypot(velocity.x, velocity.y) >= SWIPE_VELOCITY) {
+      type = 'swipe';
+    }
+    
+    let direction = 'none';
+    if (type !== 'long-press') {
+      direction = Math.abs(dx) >= Math.abs(dy)
+        ? (dx < 0 ? 'left' : 'right')
+        : (dy < 0 ? 'up' : 'down');
+    }
+    
+    const dropTarget = type === 'drag' ? findDropTarget(gesture, point.x, point.y) : null;
+    
+    // The click the browser fires after a drag is part of the gesture
+    state.gestureClickUntil = Date.now() + GESTURE_CLICK_MS;
+    
+    gesture.releasedAt = t;
+    gesture.summary = {
+      type,
+      pointerType: gesture.pointerType,
+      path: gesture.path,
+      duration: t,
+      distance,
+      direction,
+      velocity,
+      dropTarget: dropTarget ? selectorEngine.generate(dropTarget) : undefined
+    };
   }
   
-  getAttributeSelector(element) {
-    for (const attr of this.preferredAttrs) {
-      const value = element.getAttribute(attr);
-      if (value) {
-        return \`\${element.tagName.toLowerCase()}[\${attr}="\${value}"]\`;
+  /**
+   * The moved element is the outermost candidate displaced as far as the
+   * innermost moving one (a slide moves because its track does)
+   */
+  function findMovedCandidate(candidates) {
+    let moved = null;
+    let reference = 0;
+    
+    for (const candidate of candidates) {
+      const displacement = Math.max(0, ...candidate.offsets.map(o => Math.hypot(o.x, o.y)));
+      if (displacement < 1) {
+        if (moved) break;
+        continue;
+      }
+      if (!moved) {
+        reference = displacement;
+        moved = candidate;
+      } else if (displacement >= reference * 0.9) {
+        moved = candidate;
+      } else {
+        break;
       }
     }
-    return null;
+    
+    return moved;
   }
   
-  getClassSelector(element) {
-    const classes = Array.from(element.classList).filter(cls => 
-      !this.ignoredAttrs.some(ign => cls.includes(ign)) && 
-      !/^[a-z]+-[a-f0-9]{6,}$/i.test(cls) &&
-      cls.length >= 3
-    );
+  /**
+   * Emit the gesture once the moved element has settled
+   */
+  function finishGesture(gesture) {
+    if (!gesture.summary) return;
+    
+    const target = gesture.target;
+    const selector = selectorEngine.generate(target);
+    const moved = findMovedCandidate(gesture.candidates);
     
-    if (classes.length === 0) return null;
+    const offset = getFrameOffset();
+    const path = gesture.summary.path.map(p => ({
+      t: p.t,
+      x: Math.round(p.x + offset.x),
+      y: Math.round(p.y + offset.y)
+    }));
     
-    for (const cls of classes) {
-      const selector = \`\${element.tagName.toLowerCase()}.\${cls}\`;
-      if (this.isUnique(element, selector)) return selector;
+    const trace = {
+      ts: gesture.startedAt,
+      type: 'interaction',
+      event: {
+        kind: 'gesture',
+        selector,
+        x: path[0].x,
+        y: path[0].y,
+        gesture: { ...gesture.summary, path }
+      },
+      before: {
+        dom: gesture.beforeDOM,
+        style: { selector, computed: gesture.beforeStyle }
+      },
+      after: {
+        dom: captureSnapshot(target),
+        style: { selector, computed: captureStyles(target) }
+      }
+    };
+    
+    if (moved) {
+      trace.gestureResponse = {
+        selector: selectorEngine.generate(moved.element),
+        offsets: moved.offsets,
+        before: moved.styles,
+        after: captureMotionStyles(moved.element)
+      };
     }
     
-    if (classes.length > 1) {
-      const selector = \`\${element.tagName.toLowerCase()}.\${classes.join('.')}\`;
-      if (this.isUnique(element, selector)) return selector;
+    sendTrace(trace);
+    if (moved) reportSourceRules(moved.element);
+  }
+  
+  /**
+   * Record a same-document navigation and the views it swapped in and out
+   */
+  function handleNavigation(kind) {
+    const from = state.currentUrl;
+    const to = location.href;
+    if (to === from) return; // replaceState of the same URL only updates state
+    state.currentUrl = to;
+    
+    // Back/forward between anchors of the same page is a hash change
+    if (kind === 'pop' && from.split('#')[0] === to.split('#')[0]) {
+      kind = 'hash';
     }
     
-    return null;
+    const ts = Date.now();
+    const watcher = [];
+    state.mutationWatchers.add(watcher);
+    
+    setTimeout(() => {
+      state.mutationWatchers.delete(watcher);
+      sendTrace({
+        ts,
+        type: 'navigation',
+        navigation: {
+          kind,
+          from,
+          to,
+          effects: summarizeDOMEffects(watcher)
+        }
+      });
+    }, ROUTE_SETTLE_MS);
   }
   
-  getStructuralPath(element) {
-    const path = [];
-    let current = element;
-    let depth = 0;
+  /**
+   * Routers navigate through the History API, which fires no event
+   */
+  ['pushState', 'replaceState'].forEach(method => {
+    const native = history[method];
+    history[method] = function(...args) {
+      const result = native.apply(this, args);
+      handleNavigation(method === 'pushState' ? 'push' : 'replace');
+      return result;
+    };
+  });
+  
+  /**
+   * Handle mutations (debounced)
+   */
+  const processMutations = debounce(function() {
+    if (state.pendingMutations.length === 0) return;
+    
+    const mutations = state.pendingMutations.splice(0);
+    const compressed = diffEngine.compressMutations(mutations);
     
-    while (current && current !== document.documentElement && depth < 5) {
-      let selector = current.tagName.toLowerCase();
+    // Only send if significant
+    if (compressed.affectedElements > 0) {
+      const { diffs, omitted } = diffEngine.diffMutations(mutations, element =>
+        element.isConnected ? selectorEngine.generate(element) : describeDetached(element)
+      );
       
-      const siblings = current.parentElement?.children;
-      if (siblings && siblings.length > 1) {
-        const sameType = Array.from(siblings).filter(s => s.tagName === current.tagName);
-        if (sameType.length > 1) {
-          const index = sameType.indexOf(current) + 1;
-          selector += \`:nth-of-type(\${index})\`;
+      sendTrace({
+        ts: Date.now(),
+        type: 'mutation',
+        mutation: {
+          intent: compressed.intent,
+          summary: compressed.summary,
+          affectedElements: compressed.affectedElements,
+          changes: diffs,
+          omitted: omitted || undefined
         }
-      }
-      
-      path.unshift(selector);
-      current = current.parentElement;
-      depth++;
+      });
     }
     
-    return path.join(' > ');
-  }
+  }, settings.mutationDebounce);
   
-  isUnique(element, selector) {
-    try {
-      const matches = document.querySelectorAll(selector);
-      return matches.length === 1 && matches[0] === element;
-    } catch {
-      return false;
+  /**
+   * Selector for a scroll container ('document' for the page itself)
+   */
+  function describeScrollContainer(container) {
+    if (!container || container === document || container === document.scrollingElement ||
+        container === document.documentElement || container === document.body) {
+      // A frame's own document scrolls through its root element
+      const prefix = selectorEngine.getFramePrefix();
+      return prefix ? prefix + 'html' : 'document';
     }
+    return selectorEngine.generate(container);
   }
-}
-`;
-}
-
-// Inline version of DOMDiffCompressor
-function getDOMDiffEngineInline(): string {
-  return `
-class DOMDiffCompressor {
-  serializeNode(element) {
+  
+  /**
+   * Current scroll offsets of a container
+   */
+  function captureScrollPosition(container) {
+    const element = !container || container === document
+      ? (document.scrollingElement || document.documentElement)
+      : container;
+    
     return {
-      tag: element.tagName.toLowerCase(),
-      attributes: this.getMeaningfulAttributes(element),
-      classes: Array.from(element.classList).filter(cls => 
-        !/^[a-z]+-[a-f0-9]{6,}$/i.test(cls) && cls.length >= 3
-      )
+      container: describeScrollContainer(container),
+      x: Math.round(element.scrollLeft),
+      y: Math.round(element.scrollTop),
+      maxX: Math.max(0, element.scrollWidth - element.clientWidth),
+      maxY: Math.max(0, element.scrollHeight - element.clientHeight)
     };
   }
   
-  getMeaningfulAttributes(element) {
-    const attrs = {};
-    const ignored = ['data-reactid', 'data-v-', '_ngcontent-', 'style', 'class'];
+  function captureScrollStyles(element) {
+    const computed = window.getComputedStyle(element);
+    const styles = {};
+    for (const prop of SCROLL_LINKED_STYLES) {
+      styles[prop] = computed.getPropertyValue(prop);
+    }
+    return styles;
+  }
+  
+  /**
+   * Record scroll offset plus styles of visible/pinned elements that changed
+   */
+  function recordScroll(container) {
+    const samples = [];
+    const elements = new Set([...state.visibleElements, ...state.pinnedElements]);
+    
+    for (const element of elements) {
+      if (!element.isConnected) continue;
+      
+      const styles = captureScrollStyles(element);
+      const serialized = JSON.stringify(styles);
+      if (state.scrollStyles.get(element) === serialized) continue;
+      state.scrollStyles.set(element, serialized);
+      
+      samples.push({
+        selector: selectorEngine.generate(element),
+        computed: styles
+      });
+    }
+    
+    const scroll = captureScrollPosition(container);
+    
+    sendTrace({
+      ts: Date.now(),
+      type: 'interaction',
+      event: {
+        kind: 'scroll',
+        selector: scroll.container,
+        scroll
+      },
+      scrollSamples: samples
+    });
+  }
+  
+  /**
+   * Throttled scroll handler with a trailing call for the final offset
+   */
+  let lastScroll = 0;
+  let trailingScroll = null;
+  function handleScroll(event) {
+    const container = getEventTarget(event);
+    const now = Date.now();
+    
+    clearTimeout(trailingScroll);
+    if (now - lastScroll >= SCROLL_THROTTLE_MS) {
+      lastScroll = now;
+      recordScroll(container);
+    } else {
+      trailingScroll = setTimeout(() => {
+        lastScroll = Date.now();
+        recordScroll(container);
+      }, SCROLL_THROTTLE_MS);
+    }
+  }
+  
+  /**
+   * Elements likely to animate with scroll or on viewport entry
+   */
+  function isScrollCandidate(element) {
+    if (element.matches('[data-aos], [data-scroll], [data-animate], [class*="reveal"]')) {
+      return true;
+    }
+    
+    const computed = window.getComputedStyle(element);
+    return computed.animationName !== 'none' ||
+      computed.transitionDuration.split(',').some(d => parseFloat(d) > 0) ||
+      parseFloat(computed.opacity) < 1 ||
+      computed.position === 'sticky' ||
+      computed.position === 'fixed';
+  }
+  
+  /**
+   * Watch an element subtree for scroll candidates
+   */
+  function observeScrollCandidates(root) {
+    if (!state.intersectionObserver) return;
+    if (!(root instanceof Element) && !(root instanceof ShadowRoot)) return;
+    
+    const elements = root instanceof Element
+      ? [root, ...root.querySelectorAll('*')]
+      : [...root.querySelectorAll('*')];
+    for (const element of elements) {
+      if (state.observedCount >= MAX_SCROLL_CANDIDATES) return;
+      if (!isScrollCandidate(element)) continue;
+      
+      const position = window.getComputedStyle(element).position;
+      if (position === 'sticky' || position === 'fixed') {
+        state.pinnedElements.add(element);
+      }
+      
+      state.intersectionObserver.observe(element);
+      state.observedCount++;
+    }
+  }
+  
+  /**
+   * Emit an 'intersection' trace when a candidate enters the viewport
+   */
+  function handleIntersections(entries) {
+    for (const entry of entries) {
+      const element = entry.target;
+      
+      if (!entry.isIntersecting) {
+        state.visibleElements.delete(element);
+        continue;
+      }
+      
+      // Already visible (e.g. re-observed after a DOM move)
+      if (state.visibleElements.has(element)) continue;
+      state.visibleElements.add(element);
+      
+      const ts = Date.now();
+      const before = {
+        classes: Array.from(element.classList),
+        computed: captureStyles(element)
+      };
+      const scroll = captureScrollPosition(document);
+      
+      setTimeout(() => {
+        const after = {
+          classes: Array.from(element.classList),
+          computed: captureStyles(element)
+        };
+        
+        sendTrace({
+          ts,
+          type: 'intersection',
+          intersection: {
+            selector: selectorEngine.generate(element),
+            ratio: Math.round(entry.intersectionRatio * 100) / 100,
+            scroll,
+            before,
+            after
+          }
+        });
+        
+        // Only elements that reveal themselves become profiles
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+          reportSourceRules(element);
+        }
+      }, REVEAL_SETTLE_MS);
+    }
+  }
+  
+  /**
+   * Throttled hover on interactive elements
+   */
+  let lastHover = 0;
+  function handleHover(event) {
+    const now = Date.now();
+    if (now - lastHover < settings.hoverThrottle) return; // Throttle hovers
+    lastHover = now;
+    
+    const target = getEventTarget(event);
+    if (target instanceof HTMLElement && target.matches('a, button, [role="button"]')) {
+      handleInteraction(event);
+    }
+  }
+  
+  /**
+   * Listen on a document or shadow root; events that cross a shadow
+   * boundary reach both, so each is handled once
+   */
+  function addListener(root, eventType, handler, options) {
+    root.addEventListener(eventType, (event) => {
+      if (!state.recording || state.handledEvents.has(event)) return;
+      state.handledEvents.add(event);
+      handler(event);
+    }, options);
+  }
+  
+  function addListeners(root) {
+    // Interaction events
+    ['click', 'submit', 'input', 'focus', 'change'].forEach(eventType => {
+      addListener(root, eventType, handleInteraction, true);
+    });
+    
+    addListener(root, 'mouseover', handleHover, true);
     
-    for (let i = 0; i < element.attributes.length; i++) {
-      const attr = element.attributes[i];
-      if (!ignored.some(ign => attr.name.startsWith(ign))) {
-        attrs[attr.name] = attr.value;
+    // Keyboard (capture phase, so handlers that stop propagation don't hide keys)
+    addListener(root, 'keydown', handleKey, true);
+    addListener(root, 'keyup', handleKey, true);
+    
+    // Pointer gestures (drag, swipe, long-press)
+    addListener(root, 'pointerdown', handlePointerDown, true);
+    addListener(root, 'pointermove', handlePointerMove, { capture: true, passive: true });
+    addListener(root, 'pointerup', handlePointerUp, true);
+    addListener(root, 'pointercancel', handlePointerUp, true);
+    ['dragstart', 'dragover', 'drop', 'dragend'].forEach(eventType => {
+      addListener(root, eventType, handleNativeDrag, true);
+    });
+    
+    // Animation lifecycle events
+    addListener(root, 'animationstart', scheduleAnimationScan, true);
+    addListener(root, 'transitionrun', scheduleAnimationScan, true);
+    
+    // Scroll (capture phase also sees scrolls of nested containers)
+    addListener(root, 'scroll', handleScroll, { capture: true, passive: true });
+  }
+  
+  /**
+   * Instrument open shadow roots in a subtree, including nested ones
+   */
+  function instrumentShadowRoots(root) {
+    if (!root || !root.querySelectorAll) return;
+    
+    const elements = root instanceof Element
+      ? [root, ...root.querySelectorAll('*')]
+      : [...root.querySelectorAll('*')];
+    for (const element of elements) {
+      if (element.shadowRoot) {
+        instrumentShadowRoot(element.shadowRoot);
       }
     }
+  }
+  
+  function instrumentShadowRoot(shadowRoot) {
+    if (state.shadowRoots.has(shadowRoot)) return;
+    state.shadowRoots.add(shadowRoot);
     
-    return attrs;
+    // Non-composed events (change, submit, scroll, animation events) never leave the root
+    addListeners(shadowRoot);
+    state.mutationObserver.observe(shadowRoot, MUTATION_OPTIONS);
+    observeScrollCandidates(shadowRoot);
+    instrumentShadowRoots(shadowRoot);
   }
   
-  compressMutations(mutations) {
-    const affected = new Set();
-    let hasClass = false, hasChild = false;
+  /**
+   * Web components attach their shadow roots from script; catch them as they are created
+   */
+  const nativeAttachShadow = Element.prototype.attachShadow;
+  Element.prototype.attachShadow = function(init) {
+    const shadowRoot = nativeAttachShadow.call(this, init);
+    if (init && init.mode === 'open' && state.mutationObserver) {
+      instrumentShadowRoot(shadowRoot);
+    }
+    return shadowRoot;
+  };
+  
+  /**
+   * Setup event listeners
+   */
+  function setupListeners() {
+    addListeners(document);
     
-    for (const m of mutations) {
-      if (m.target instanceof Element) affected.add(m.target);
-      if (m.type === 'attributes' && m.attributeName === 'class') hasClass = true;
-      if (m.type === 'childList') hasChild = true;
+    if (config.performance && typeof PerformanceObserver !== 'undefined') {
+      observePerformance();
     }
     
-    let intent = 'unknown';
-    if (hasClass && !hasChild) intent = 'style-change';
-    else if (hasChild && affected.size === 1) intent = 'content-update';
-    else if (hasChild) intent = 'dom-restructure';
+    // Back/forward and anchor navigation within the document
+    window.addEventListener('popstate', () => handleNavigation('pop'));
+    window.addEventListener('hashchange', () => handleNavigation('hash'));
     
-    return {
-      intent,
-      summary: \`\${mutations.length} mutations on \${affected.size} elements\`,
-      affectedElements: affected.size
-    };
+    // Viewport entry of scroll-animated candidates
+    if (typeof IntersectionObserver !== 'undefined') {
+      state.intersectionObserver = new IntersectionObserver(handleIntersections, {
+        threshold: 0
+      });
+      observeScrollCandidates(document.body);
+    }
+    
+    // Mutation observer
+    const observer = new MutationObserver((mutations) => {
+      // Per-frame inline style writes are the signature of JS-driven animation
+      for (const m of mutations) {
+        if (m.type === 'attributes' && m.attributeName === 'style') {
+          sampleCurve(m.target, 'style-mutation');
+        }
+        for (const node of m.addedNodes || []) {
+          observeScrollCandidates(node);
+          instrumentShadowRoots(node);
+        }
+      }
+      
+      for (const watcher of state.mutationWatchers) {
+        watcher.push(...mutations);
+      }
+      
+      state.pendingMutations.push(...mutations);
+      processMutations();
+    });
+    
+    observer.observe(document.body, MUTATION_OPTIONS);
+    
+    // Store observer for cleanup
+    state.mutationObserver = observer;
+    window.__mutationObserver = observer;
+    
+    // Shadow roots created before the listeners were ready
+    instrumentShadowRoots(document.body);
   }
-}
+  
+  /**
+   * Cleanup
+   */
+  window.__stopCapture = function() {
+    state.recording = false;
+    if (window.__mutationObserver) {
+      window.__mutationObserver.disconnect();
+    }
+    if (state.intersectionObserver) {
+      state.intersectionObserver.disconnect();
+    }
+  };
+  
+  // Initialize
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', setupListeners);
+  } else {
+    setupListeners();
+  }
+  
+  // Send test trace immediately to confirm instrumentation is working
+  if (window.__captureCallback) {
+    try {
+      window.__captureCallback({
+        ts: Date.now(),
+        type: 'test',
+        message: 'Instrumentation loaded successfully'
+      });
+    } catch (e) {
+      console.error('Failed to send test trace:', e);
+    }
+  }
+  
+  console.log('🎬 Animation Capture: Recording started');
+})();
 `;
 }
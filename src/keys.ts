@@ -0,0 +1,38 @@
+/**
+ * Keyboard helpers
+ *
+ * Shared by profile extraction (trigger names) and replay (Playwright
+ * key presses), which both use Playwright-style combos like "Meta+K".
+ * Replay keeps the recorded key as is, since Playwright presses "a" and
+ * "A" differently; labels uppercase single characters.
+ */
+
+import { KeyModifiers } from "./types";
+
+/**
+ * Format a key and its modifiers as a combo Playwright can press, e.g.
+ * "Control+Shift+P" or "Meta+k"
+ */
+export function formatKeyCombo(key: string, modifiers?: KeyModifiers): string {
+  const parts: string[] = [];
+  if (modifiers?.ctrl) parts.push("Control");
+  if (modifiers?.alt) parts.push("Alt");
+  if (modifiers?.shift) parts.push("Shift");
+  if (modifiers?.meta) parts.push("Meta");
+
+  if (key === " ") {
+    parts.push("Space");
+  } else if (!["Control", "Alt", "Shift", "Meta"].includes(key)) {
+    parts.push(key);
+  }
+
+  return parts.join("+");
+}
+
+/**
+ * Format a key and its modifiers for trigger names and logs, e.g. "Meta+K"
+ * for both "k" and "K", so the same shortcut always gets the same label
+ */
+export function formatKeyLabel(key: string, modifiers?: KeyModifiers): string {
+  return formatKeyCombo(key.length === 1 ? key.toUpperCase() : key, modifiers);
+}
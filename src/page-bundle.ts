@@ -0,0 +1,68 @@
+/**
+ * Page Bundle
+ *
+ * Serializes compiled classes (StableSelectorEngine, DOMDiffCompressor)
+ * for injection into the page, so the in-page engines are the Node-side
+ * code itself rather than hand-kept copies. Module imports the classes use
+ * are re-declared from PAGE_BINDINGS; other imports fail the build of the
+ * script instead of failing silently in the page. Bare module-scope names
+ * (a constant declared next to the class) cannot be told apart from
+ * globals in the source, so test/page-bundle.test.ts type-checks the bundle
+ * against the DOM library alone and fails on any name it cannot resolve.
+ */
+
+import * as vm from "vm";
+import { DEFAULT_SETTINGS, REDACTED } from "./config";
+
+// Module exports the serialized classes may reference, by export name
+const PAGE_BINDINGS: Record<string, unknown> = { DEFAULT_SETTINGS, REDACTED };
+
+// Compiled CommonJS imports look like `config_1.DEFAULT_SETTINGS`
+const MODULE_REFERENCE = /\b([A-Za-z_$][\w$]*_\d+)\.([A-Za-z_$][\w$]*)/g;
+
+// Downlevel helpers that only exist in the compiled module scope
+const COMPILER_HELPER = /\b__(?:awaiter|generator|assign|rest|spreadArray|extends|values|read)\b/;
+
+/**
+ * Source for the given classes plus the module bindings they reference
+ */
+export function bundleClasses(...classes: Function[]): string {
+  const modules = new Map<string, Map<string, unknown>>();
+  const sources: string[] = [];
+
+  for (const cls of classes) {
+    const source = cls.toString();
+
+    if (!source.startsWith("class ")) {
+      throw new Error(`Cannot inject ${cls.name}: not compiled to a native class`);
+    }
+    const helper = COMPILER_HELPER.exec(source);
+    if (helper) {
+      throw new Error(`Cannot inject ${cls.name}: it depends on the compiler helper ${helper[0]}`);
+    }
+
+    for (const [, alias, name] of source.matchAll(MODULE_REFERENCE)) {
+      if (!(name in PAGE_BINDINGS)) {
+        throw new Error(
+          `Cannot inject ${cls.name}: it references ${alias}.${name}, ` +
+            `which is not available in the page (add it to PAGE_BINDINGS)`,
+        );
+      }
+      if (!modules.has(alias)) modules.set(alias, new Map());
+      modules.get(alias)!.set(name, PAGE_BINDINGS[name]);
+    }
+
+    sources.push(source);
+  }
+
+  const bindings = [...modules].map(
+    ([alias, exports]) => `const ${alias} = ${JSON.stringify(Object.fromEntries(exports))};`,
+  );
+
+  const bundle = [...bindings, ...sources].join("\n\n");
+
+  // Fail on a class whose compiled source does not parse on its own
+  new vm.Script(bundle, { filename: "page-bundle.js" });
+
+  return bundle;
+}
@@ -0,0 +1,517 @@
+/**
+ * Redaction
+ *
+ * Masks sensitive values before they reach traces, exports and prompts:
+ * - Values and text of sensitive fields (passwords, card and one-time-code
+ *   autocomplete fields, and configured selectors)
+ * - Matches of configured patterns (emails, Luhn-valid card numbers) in text
+ * - Values of configured attributes and of credential headers
+ *
+ * The class is injected into the page, where it can match selectors; on
+ * the Node side it scrubs finished traces, e.g. for `capture-anim redact`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { CaptureConfig, DEFAULT_SETTINGS, REDACTED, resolveSettings } from "./config";
+import { DOMDiff, DOMNode } from "./dom-diff";
+import { Har, HarEntry } from "./har";
+import { DOMEffect, NetworkBody, TraceRecord } from "./types";
+
+export interface RedactionOptions {
+  selectors?: string[];
+  patterns?: string[];
+  attributes?: string[];
+}
+
+export class Redactor {
+  private selectors: string[];
+  private patterns: RegExp[];
+  private attributes: string[];
+  private validSelector: string | null = null;
+
+  // The fields below are only used on the Node side; they are instance
+  // fields so the injected class carries them (it has no module scope)
+
+  // Headers that carry credentials on every request
+  private sensitiveHeaders = [
+    "authorization",
+    "proxy-authorization",
+    "cookie",
+    "set-cookie",
+    "x-api-key",
+    "x-auth-token",
+    "x-csrf-token",
+  ];
+
+  // Opening tags of the default sensitive fields, for traces recorded without
+  // redaction (selectors need a live document, stored HTML only has the tag)
+  private sensitiveMarkup =
+    /^<[^>]*\b(?:type="password"|autocomplete="[^"]*(?:cc-|password|one-time-code)[^"]*"|data-redact\b)/i;
+
+  // Names of body fields holding credentials, in JSON and form-encoded bodies
+  private sensitiveField = /^[\w.-]*(?:password|passwd|secret|token|otp|cvc|cvv)[\w.-]*$/i;
+  private sensitiveJsonField =
+    /("[\w.-]*(?:password|passwd|secret|token|otp|cvc|cvv)[\w.-]*"\s*:\s*)"(?:[^"\\]|\\.)*"/gi;
+  private sensitiveFormField =
+    /((?:^|&)[\w.%-]*(?:password|passwd|secret|token|otp|cvc|cvv)[\w.%-]*=)[^&]*/gi;
+
+  constructor(options: RedactionOptions = {}) {
+    this.selectors = options.selectors || DEFAULT_SETTINGS.redactSelectors;
+    this.patterns = (options.patterns || DEFAULT_SETTINGS.redactPatterns).map(
+      (pattern) => new RegExp(pattern, "g"),
+    );
+    this.attributes = (
+      options.attributes || DEFAULT_SETTINGS.redactAttributes
+    ).map((name) => name.toLowerCase());
+  }
+
+  /**
+   * Mask every pattern match in a string. A match made only of 13 to 19
+   * digits (with spaces or dashes) is masked only if it passes the card
+   * number checksum, so ids, timestamps and numeric constants survive.
+   */
+  maskText(text: string): string {
+    return this.patterns.reduce(
+      (masked, pattern) =>
+        masked.replace(pattern, (match) =>
+          this.isCardCandidate(match) && !this.passesLuhn(match) ? match : REDACTED,
+        ),
+      text,
+    );
+  }
+
+  /**
+   * Mask configured attribute values and pattern matches in an HTML string
+   */
+  maskHtml(html: string): string {
+    let masked = html;
+    for (const name of this.attributes) {
+      const attribute = new RegExp(
+        `(\\s${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}=)("[^"]*"|'[^']*')`,
+        "gi",
+      );
+      masked = masked.replace(attribute, `$1"${REDACTED}"`);
+    }
+    return this.maskText(masked);
+  }
+
+  /**
+   * Mask configured attributes by name and pattern matches in the rest
+   */
+  maskAttributes(attributes: Record<string, string>): Record<string, string> {
+    const masked: Record<string, string> = {};
+    for (const [name, value] of Object.entries(attributes)) {
+      masked[name] = this.maskAttribute(name, value);
+    }
+    return masked;
+  }
+
+  /**
+   * Mask a single attribute value
+   */
+  maskAttribute(name: string, value: string): string {
+    return this.attributes.includes(name.toLowerCase())
+      ? REDACTED
+      : this.maskText(value);
+  }
+
+  /**
+   * Whether the element is, or is inside, a sensitive field
+   */
+  isSensitive(element: Element): boolean {
+    const selector = this.getValidSelector();
+    return selector !== "" && element.closest(selector) !== null;
+  }
+
+  /**
+   * Value of a form field as it may be recorded
+   */
+  redactValue(element: Element, value: string): string {
+    if (!value) return value;
+    return this.isSensitive(element) ? REDACTED : this.maskText(value);
+  }
+
+  /**
+   * Text content of an element as it may be recorded
+   */
+  redactText(element: Element, text: string): string {
+    if (!text) return text;
+    return this.isSensitive(element) ? REDACTED : this.maskText(text);
+  }
+
+  /**
+   * outerHTML with sensitive fields (the element or its descendants)
+   * blanked, then cut to maxLength
+   */
+  redactHtml(element: Element, maxLength: number): string {
+    const selector = this.getValidSelector();
+    const rootSensitive = this.isSensitive(element);
+
+    let html = element.outerHTML;
+    if (rootSensitive || (selector && element.querySelector(selector))) {
+      const clone = element.cloneNode(true) as Element;
+      for (const node of [clone, ...Array.from(clone.querySelectorAll("*"))]) {
+        if (rootSensitive || node.closest(selector)) {
+          this.blankElement(node);
+        }
+      }
+      html = clone.outerHTML;
+    }
+
+    return this.maskHtml(html).substring(0, maxLength);
+  }
+
+  /**
+   * Scrub a finished trace (or an export entry of the same shape) in place
+   *
+   * Field sensitivity is detected from the recorded markup, so the default
+   * sensitive fields are caught but custom selectors only apply in the page.
+   */
+  redactTrace<T extends Partial<TraceRecord>>(trace: T): T {
+    if (trace.event?.value) {
+      trace.event.value =
+        trace.event.value === REDACTED ||
+        this.sensitiveMarkup.test(trace.before?.dom?.html || "")
+          ? REDACTED
+          : this.maskText(trace.event.value);
+    }
+
+    for (const state of [trace.before, trace.after]) {
+      const dom = state?.dom;
+      if (!dom) continue;
+
+      dom.html = this.maskHtml(dom.html);
+      dom.attributes = this.maskAttributes(dom.attributes);
+      if (dom.text) {
+        dom.text = this.sensitiveMarkup.test(dom.html)
+          ? REDACTED
+          : this.maskText(dom.text);
+      }
+    }
+
+    for (const diff of trace.mutation?.changes || []) {
+      this.redactDiff(diff);
+    }
+
+    for (const effect of trace.keyEffects || []) {
+      this.redactEffect(effect);
+    }
+
+    for (const request of trace.network || []) {
+      request.url = this.maskText(request.url);
+      request.requestHeaders = this.redactHeaders(request.requestHeaders);
+      request.responseHeaders = this.redactHeaders(request.responseHeaders);
+      this.redactBody(request.requestBody);
+      this.redactBody(request.responseBody);
+    }
+
+    return trace;
+  }
+
+  /**
+   * Scrub an entry of a recorded HAR in place: credential headers, cookies
+   * and the credential fields of JSON and form-encoded bodies
+   *
+   * The HAR is replayed (--har-replay, session replay, variants), which
+   * matches requests by URL, method and body, so URLs and every other body
+   * are kept byte-identical.
+   */
+  redactHarEntry(entry: HarEntry): void {
+    const { request, response } = entry;
+
+    for (const header of [...request.headers, ...response.headers]) {
+      if (this.sensitiveHeaders.includes(header.name.toLowerCase())) {
+        header.value = REDACTED;
+      }
+    }
+    for (const cookie of [...request.cookies, ...response.cookies]) {
+      cookie.value = REDACTED;
+    }
+    for (const param of request.postData?.params || []) {
+      if (this.sensitiveField.test(param.name)) param.value = REDACTED;
+    }
+
+    if (request.postData) {
+      request.postData.text = this.maskCredentialFields(
+        request.postData.text,
+        request.postData.mimeType,
+      );
+    }
+    // Binary content is base64 and cannot hold readable text
+    if (response.content.text !== undefined && response.content.encoding !== "base64") {
+      response.content.text = this.maskCredentialFields(
+        response.content.text,
+        response.content.mimeType,
+      );
+    }
+  }
+
+  private redactDiff(diff: DOMDiff): void {
+    const sensitive = diff.node ? this.redactNode(diff.node, false) : false;
+
+    const changes = diff.changes;
+    if (!changes) return;
+    for (const [name, change] of Object.entries(changes.attributes || {})) {
+      change.from = this.maskAttribute(name, change.from);
+      change.to = this.maskAttribute(name, change.to);
+    }
+    if (changes.text) {
+      changes.text.from = sensitive ? REDACTED : this.maskText(changes.text.from);
+      changes.text.to = sensitive ? REDACTED : this.maskText(changes.text.to);
+    }
+  }
+
+  /**
+   * Scrub a serialized node and its children; returns whether it is a
+   * sensitive field (detected from its attributes, as for stored HTML)
+   */
+  private redactNode(node: DOMNode, insideSensitive: boolean): boolean {
+    const markup =
+      `<${node.tag}` +
+      Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${value}"`)
+        .join("") +
+      ">";
+    const sensitive = insideSensitive || this.sensitiveMarkup.test(markup);
+
+    node.attributes = this.maskAttributes(node.attributes);
+    if (sensitive && node.attributes.value) {
+      node.attributes.value = REDACTED;
+    }
+    if (node.text) {
+      node.text = sensitive ? REDACTED : this.maskText(node.text);
+    }
+    for (const child of node.children || []) {
+      this.redactNode(child, sensitive);
+    }
+    return sensitive;
+  }
+
+  private redactEffect(effect: DOMEffect): void {
+    const name = effect.attribute || "";
+    if (effect.from !== undefined) {
+      effect.from = this.maskAttribute(name, effect.from);
+    }
+    if (effect.to !== undefined) {
+      effect.to = this.maskAttribute(name, effect.to);
+    }
+  }
+
+  private redactHeaders(
+    headers: Record<string, string> | undefined,
+  ): Record<string, string> | undefined {
+    if (!headers) return headers;
+
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] = this.redactHeader(name, value);
+    }
+    return redacted;
+  }
+
+  private redactHeader(name: string, value: string): string {
+    return this.sensitiveHeaders.includes(name.toLowerCase())
+      ? REDACTED
+      : this.maskText(value);
+  }
+
+  /**
+   * Mask credential fields of a traced body, and pattern matches inside its
+   * JSON string values (traced bodies are JSON), so it still parses
+   */
+  private redactBody(body: NetworkBody | undefined): void {
+    if (body?.text === undefined) return;
+
+    body.text = this.maskCredentialFields(body.text, body.mimeType).replace(
+      /"(?:[^"\\]|\\.)*"/g,
+      (literal) => this.maskText(literal),
+    );
+  }
+
+  /**
+   * Mask the values of credential fields in a JSON or form-encoded body;
+   * other bodies are returned unchanged
+   */
+  private maskCredentialFields(text: string, mimeType: string): string {
+    if (/json/i.test(mimeType)) {
+      return text.replace(this.sensitiveJsonField, `$1"${REDACTED}"`);
+    }
+    if (/x-www-form-urlencoded/i.test(mimeType)) {
+      return text.replace(this.sensitiveFormField, `$1${encodeURIComponent(REDACTED)}`);
+    }
+    return text;
+  }
+
+  private isCardCandidate(match: string): boolean {
+    const digits = match.replace(/[ -]/g, "");
+    return /^\d{13,19}$/.test(digits) && /^[\d -]+$/.test(match);
+  }
+
+  /**
+   * Luhn checksum of a card number candidate
+   */
+  private passesLuhn(match: string): boolean {
+    const digits = match.replace(/\D/g, "");
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  /**
+   * Blank a field's value attribute and its own text
+   */
+  private blankElement(element: Element): void {
+    if (element.hasAttribute("value")) {
+      element.setAttribute("value", REDACTED);
+    }
+    for (const node of Array.from(element.childNodes)) {
+      // Node.TEXT_NODE = 3
+      if (node.nodeType === 3 && node.nodeValue?.trim()) {
+        node.nodeValue = REDACTED;
+      }
+    }
+  }
+
+  /**
+   * The configured selectors the browser accepts, joined into one list
+   */
+  private getValidSelector(): string {
+    if (this.validSelector === null) {
+      const probe = document.createDocumentFragment();
+      this.validSelector = this.selectors
+        .filter((selector) => {
+          try {
+            probe.querySelector(selector);
+            return true;
+          } catch {
+            return false; // Invalid or unsupported by this engine
+          }
+        })
+        .join(", ");
+    }
+    return this.validSelector;
+  }
+}
+
+/**
+ * Redactor for each page URL, from the settings the config resolves to for
+ * it (overrides may tighten redaction on some pages)
+ */
+export function createRedactors(config: CaptureConfig): (url: string) => Redactor {
+  const redactors = new Map<string, Redactor>();
+
+  return (url) => {
+    if (!redactors.has(url)) {
+      const settings = resolveSettings(config, url);
+      redactors.set(
+        url,
+        new Redactor({
+          selectors: settings.redactSelectors,
+          patterns: settings.redactPatterns,
+          attributes: settings.redactAttributes,
+        }),
+      );
+    }
+    return redactors.get(url)!;
+  };
+}
+
+export interface RedactionResult {
+  /** Session directories scrubbed (the session and its variants) */
+  sessions: string[];
+  traces: number;
+  /** HAR files recorded with --har-record that were scrubbed */
+  hars: string[];
+}
+
+/**
+ * Scrub the traces of a finished session in place: traces.jsonl, the traces
+ * in session.json, the interaction traces in ai-output.json and the HAR it
+ * recorded. Each trace is scrubbed with the redactor for its page URL, the
+ * HAR with the one for the session URL. Variant sub-sessions are scrubbed too.
+ */
+export async function redactSession(
+  sessionDir: string,
+  redactorFor: (url: string) => Redactor,
+): Promise<RedactionResult> {
+  const result: RedactionResult = { sessions: [], traces: 0, hars: [] };
+
+  const tracesFile = path.join(sessionDir, "traces.jsonl");
+  if (!fs.existsSync(tracesFile)) {
+    throw new Error(`No traces.jsonl found in ${sessionDir}`);
+  }
+
+  const traces: TraceRecord[] = (await fs.promises.readFile(tracesFile, "utf-8"))
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+  traces.forEach((trace) => redactorFor(trace.url).redactTrace(trace));
+  await fs.promises.writeFile(
+    tracesFile,
+    traces.map((trace) => JSON.stringify(trace) + "\n").join(""),
+    "utf-8",
+  );
+  result.traces += traces.length;
+
+  let har: { file: string; url: string } | undefined;
+  await rewriteJson(path.join(sessionDir, "session.json"), (session) => {
+    (session.traces || []).forEach((trace: any) => redactorFor(trace.url).redactTrace(trace));
+    if (session.har?.mode === "record") har = { file: session.har.file, url: session.url };
+  });
+  // Exported interaction traces carry no URL; they are in recording order
+  const interactionUrls = traces
+    .filter((trace) => trace.type === "interaction")
+    .map((trace) => trace.url);
+  await rewriteJson(path.join(sessionDir, "ai-output.json"), (output) => {
+    (output.interactionTraces || []).forEach((trace: any, i: number) =>
+      redactorFor(interactionUrls[i] ?? output.session?.url ?? "").redactTrace(trace),
+    );
+  });
+  result.sessions.push(sessionDir);
+  if (har && (await redactHar(har.file, redactorFor(har.url)))) {
+    result.hars.push(har.file);
+  }
+
+  const variantsDir = path.join(sessionDir, "variants");
+  if (fs.existsSync(variantsDir)) {
+    for (const name of fs.readdirSync(variantsDir)) {
+      const variantDir = path.join(variantsDir, name);
+      if (fs.existsSync(path.join(variantDir, "traces.jsonl"))) {
+        const variant = await redactSession(variantDir, redactorFor);
+        result.sessions.push(...variant.sessions);
+        result.traces += variant.traces;
+        result.hars.push(...variant.hars);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Scrub a HAR file in place; returns false if there is no such file
+ */
+export async function redactHar(file: string, redactor: Redactor): Promise<boolean> {
+  if (!fs.existsSync(file)) return false;
+
+  const har: Har = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+  har.log.entries.forEach((entry) => redactor.redactHarEntry(entry));
+  await fs.promises.writeFile(file, JSON.stringify(har, null, 2), "utf-8");
+  return true;
+}
+
+async function rewriteJson(file: string, update: (data: any) => void): Promise<void> {
+  if (!fs.existsSync(file)) return;
+
+  const data = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+  update(data);
+  await fs.promises.writeFile(file, JSON.stringify(data, null, 2), "utf-8");
+}
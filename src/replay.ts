@@ -0,0 +1,336 @@
+/**
+ * Session Replay
+ *
+ * Re-drives the recorded interactions of a session against its original
+ * URL, records a fresh capture and diffs it against the original. This
+ * turns any past capture into a motion regression test.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AnimationProfile,
+  BrowserName,
+  DeviceEmulation,
+  InteractionEvent,
+  TraceRecord,
+} from "./types";
+import { CaptureEngine } from "./capture-engine";
+import { CaptureConfig, REDACTED } from "./config";
+import { Flow, FlowRunner, FlowStep } from "./flow-runner";
+import { formatKeyCombo } from "./keys";
+import {
+  compareInteractions,
+  compareProfiles,
+  InteractionDiff,
+  ProfileDiff,
+} from "./session-diff";
+
+export interface ReplayOptions {
+  outputDir?: string;
+  headless?: boolean;
+  timeout?: number;
+  config?: CaptureConfig;
+  /** Serve the network from this HAR (default: the session's own HAR, if any) */
+  harReplay?: string;
+  /** Use the live network even when the session has a HAR */
+  liveNetwork?: boolean;
+}
+
+export interface LoadedSession {
+  id: string;
+  url: string;
+  dir: string;
+  traces: TraceRecord[];
+  profiles: AnimationProfile[];
+  browser?: BrowserName;
+  emulation?: DeviceEmulation;
+  har?: { mode: "record" | "replay"; file: string };
+}
+
+export interface ReplayReport {
+  originalSession: string;
+  replaySession: string;
+  url: string;
+  interactionsReplayed: number;
+  profiles: ProfileDiff[];
+  interactions: InteractionDiff[];
+  error?: string;
+  passed: boolean;
+}
+
+// Pauses between replayed interactions follow the original timing, clamped
+const MIN_REPLAY_GAP = 300;
+const MAX_REPLAY_GAP = 2000;
+
+/**
+ * Read traces.jsonl and the extracted profiles of a finished session
+ */
+export function loadSession(sessionDir: string): LoadedSession {
+  const tracesFile = path.join(sessionDir, "traces.jsonl");
+  const sessionFile = path.join(sessionDir, "session.json");
+
+  if (!fs.existsSync(tracesFile)) {
+    throw new Error(`No traces.jsonl found in ${sessionDir}`);
+  }
+  if (!fs.existsSync(sessionFile)) {
+    throw new Error(`No session.json found in ${sessionDir} (was the capture stopped cleanly?)`);
+  }
+
+  const traces: TraceRecord[] = fs
+    .readFileSync(tracesFile, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+
+  const session = JSON.parse(fs.readFileSync(sessionFile, "utf-8"));
+
+  return {
+    id: session.id,
+    url: session.url,
+    dir: sessionDir,
+    traces,
+    profiles: session.profiles || [],
+    browser: session.browser,
+    emulation: session.emulation,
+    har: session.har,
+  };
+}
+
+/**
+ * Convert recorded interactions into flow steps with the original pacing
+ */
+export function interactionsToFlow(traces: TraceRecord[]): Flow {
+  const steps: FlowStep[] = [];
+  let previousTs: number | null = null;
+  let previousAction: FlowStep["action"] | null = null;
+  // Focus steps standing in for fills whose recorded value was masked
+  const masked = new Set<FlowStep>();
+
+  for (const trace of traces) {
+    if (trace.type !== "interaction" || !trace.event) continue;
+
+    let step = interactionToStep(trace.event);
+    if (!step) continue;
+
+    // Typing the mask would submit "[redacted]", so only focus the field
+    if (step.action === "fill" && step.value.includes(REDACTED)) {
+      step = { action: "focus", selector: step.selector };
+      masked.add(step);
+    }
+
+    // Keystroke-by-keystroke input collapses into a single fill
+    const last = steps[steps.length - 1];
+    const field = inputField(step, masked);
+    if (field !== null && last && inputField(last, masked) === field) {
+      steps[steps.length - 1] = step;
+      previousTs = trace.ts;
+      continue;
+    }
+
+    if (previousTs !== null) {
+      // Consecutive scroll samples keep their real spacing so scroll speed is preserved
+      const minGap = step.action === "scroll" && previousAction === "scroll" ? 0 : MIN_REPLAY_GAP;
+      const gap = Math.min(Math.max(trace.ts - previousTs, minGap), MAX_REPLAY_GAP);
+      steps.push({ action: "wait", ms: gap });
+    }
+
+    steps.push(step);
+    // A replayed drag takes as long as the original, so pace from its release
+    previousTs = trace.ts + (trace.event.gesture?.duration || 0);
+    previousAction = step.action;
+  }
+
+  // Give the last effect time to finish before the capture stops
+  if (steps.length > 0) {
+    steps.push({ action: "wait", ms: MAX_REPLAY_GAP });
+  }
+
+  const maskedFields = new Set(
+    steps.filter((step) => masked.has(step)).map((step) => inputField(step, masked)),
+  );
+  if (maskedFields.size > 0) {
+    console.log(`⚠️  Redacted input is not replayed (fields left empty): ${[...maskedFields].join(", ")}`);
+  }
+
+  return { name: "replay", steps, stepDelay: 0 };
+}
+
+/**
+ * Selector of a step that enters a field's value (a fill, or the focus
+ * replacing a masked fill), else null
+ */
+function inputField(step: FlowStep, masked: Set<FlowStep>): string | null {
+  return step.action === "fill" || (step.action === "focus" && masked.has(step))
+    ? step.selector
+    : null;
+}
+
+/**
+ * Map a single interaction to a flow step (null if not replayable)
+ */
+function interactionToStep(event: InteractionEvent): FlowStep | null {
+  const position =
+    event.x !== undefined && event.y !== undefined ? { x: event.x, y: event.y } : undefined;
+
+  switch (event.kind as string) {
+    case "click":
+      return { action: "click", selector: event.selector, position };
+    case "hover":
+    case "mouseover":
+      return { action: "hover", selector: event.selector, position };
+    case "input":
+    case "change":
+      return event.value !== undefined
+        ? { action: "fill", selector: event.selector, value: event.value }
+        : null;
+    case "focus":
+      return { action: "focus", selector: event.selector };
+    case "keypress":
+    case "keydown":
+      // A press covers keydown and keyup, so keyup traces are not replayed
+      return event.key
+        ? { action: "press", key: formatKeyCombo(event.key, event.modifiers) }
+        : null;
+    case "gesture":
+      return event.gesture
+        ? { action: "drag", path: event.gesture.path.map(({ t, x, y }) => ({ t, x, y })) }
+        : null;
+    case "scroll":
+      return event.scroll
+        ? {
+            action: "scroll",
+            container: event.scroll.container,
+            to: { x: event.scroll.x, y: event.scroll.y },
+          }
+        : null;
+    default:
+      // submit follows from the replayed click/Enter; blur from the next focus
+      return null;
+  }
+}
+
+/**
+ * HAR to serve a replay from: an explicit file, else the one the session
+ * was recorded to or replayed from, so replays see identical responses
+ */
+export function resolveReplayHar(
+  session: LoadedSession,
+  options: { harReplay?: string; liveNetwork?: boolean },
+): string | undefined {
+  if (options.harReplay) return options.harReplay;
+  if (options.liveNetwork || !session.har) return undefined;
+
+  if (!fs.existsSync(session.har.file)) {
+    console.log(`⚠️  Session HAR not found (${session.har.file}); using the live network`);
+    return undefined;
+  }
+  return session.har.file;
+}
+
+export class SessionReplayer {
+  /**
+   * Replay a session and compare the fresh capture with the original
+   */
+  async replay(sessionDir: string, options: ReplayOptions = {}): Promise<ReplayReport> {
+    const original = loadSession(sessionDir);
+    const flow = interactionsToFlow(original.traces);
+    const interactionsReplayed = flow.steps.filter((step) => step.action !== "wait").length;
+
+    if (interactionsReplayed === 0) {
+      throw new Error("Session has no replayable interactions");
+    }
+
+    const engine = new CaptureEngine();
+    await engine.start({
+      url: original.url,
+      outputDir: options.outputDir,
+      headless: options.headless ?? true,
+      timeout: options.timeout,
+      config: options.config,
+      harReplay: resolveReplayHar(original, options),
+      sampleFrames: original.traces.some((trace) => trace.type === "curve"),
+      scripted: true,
+      browser: original.browser,
+      // Recorded coordinates and breakpoints only line up on the same device
+      ...original.emulation,
+    });
+
+    // A step that cannot be replayed is itself a regression; still compare
+    let flowError: string | undefined;
+    try {
+      await new FlowRunner(engine.getPage()!).run(flow);
+    } catch (error: any) {
+      flowError = error.message;
+    }
+
+    const replayDir = await engine.stop();
+    const replay = loadSession(replayDir);
+
+    const profiles = compareProfiles(original.profiles, replay.profiles);
+    const interactions = compareInteractions(original.traces, replay.traces);
+
+    const report: ReplayReport = {
+      originalSession: original.id,
+      replaySession: replay.id,
+      url: original.url,
+      interactionsReplayed,
+      profiles,
+      interactions,
+      error: flowError,
+      passed: !flowError && profiles.length === 0 && interactions.length === 0,
+    };
+
+    await fs.promises.writeFile(
+      path.join(replayDir, "replay-report.json"),
+      JSON.stringify(report, null, 2),
+      "utf-8",
+    );
+
+    return report;
+  }
+}
+
+/**
+ * Render a replay report for the terminal
+ */
+export function formatReplayReport(report: ReplayReport): string {
+  const lines: string[] = [];
+
+  lines.push(`🔁 Replay: ${report.originalSession} → ${report.replaySession}`);
+  lines.push(`   URL: ${report.url}`);
+  lines.push(`   Interactions replayed: ${report.interactionsReplayed}`);
+
+  if (report.error) {
+    lines.push("");
+    lines.push(`❌ Replay error: ${report.error}`);
+  }
+
+  if (report.profiles.length > 0) {
+    lines.push("");
+    lines.push(`🎞️  Animation profile differences (${report.profiles.length}):`);
+    for (const diff of report.profiles) {
+      const icon = diff.status === "missing" ? "❌" : diff.status === "added" ? "➕" : "⚠️ ";
+      lines.push(`   ${icon} ${diff.status}: ${diff.name}`);
+      for (const change of diff.changes) {
+        lines.push(`      - ${change}`);
+      }
+    }
+  }
+
+  if (report.interactions.length > 0) {
+    lines.push("");
+    lines.push(`👆 Interaction differences (${report.interactions.length}):`);
+    for (const diff of report.interactions) {
+      lines.push(`   #${diff.index + 1} ${diff.kind} on ${diff.selector}`);
+      for (const change of diff.changes) {
+        lines.push(`      - ${change}`);
+      }
+    }
+  }
+
+  lines.push("");
+  lines.push(report.passed ? "✅ No animation regressions detected" : "❌ Animation regressions detected");
+
+  return lines.join("\n");
+}
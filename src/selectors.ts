@@ -8,62 +8,66 @@
  * - Are resilient to minor DOM changes
  */
 
+import { DEFAULT_SETTINGS } from "./config";
+import { bundleClasses } from "./page-bundle";
+
 export interface SelectorOptions {
   ignoreAttributes?: string[];
   preferredAttributes?: string[];
   maxDepth?: number;
 }
 
-const DEFAULT_IGNORED_ATTRIBUTES = [
-  "data-reactid",
-  "data-react-checksum",
-  "data-v-", // Vue
-  "data-svelte-",
-  "_ngcontent-", // Angular
-  "_nghost-",
-  "data-emotion-",
-  "data-styled-",
-  "ng-reflect-",
-];
-
-const DEFAULT_PREFERRED_ATTRIBUTES = [
-  "id",
-  "data-testid",
-  "data-test",
-  "data-id",
-  "name",
-  "aria-label",
-  "role",
-  "type",
-  "href",
-  "for",
-];
-
 export class StableSelectorEngine {
   private options: Required<SelectorOptions>;
 
   constructor(options: SelectorOptions = {}) {
     this.options = {
-      ignoreAttributes: options.ignoreAttributes || DEFAULT_IGNORED_ATTRIBUTES,
+      ignoreAttributes:
+        options.ignoreAttributes || DEFAULT_SETTINGS.ignoredAttributes,
       preferredAttributes:
-        options.preferredAttributes || DEFAULT_PREFERRED_ATTRIBUTES,
-      maxDepth: options.maxDepth || 5,
+        options.preferredAttributes || DEFAULT_SETTINGS.preferredAttributes,
+      maxDepth: options.maxDepth || DEFAULT_SETTINGS.selectorMaxDepth,
     };
   }
 
   /**
    * Generate a stable selector for an element
+   *
+   * Selectors are addressed from the top-level document: enclosing iframes
+   * are joined with " |> " and open shadow roots with " >> " (Playwright's
+   * chaining, which pierces shadow roots).
    */
   generate(element: Element): string {
+    return this.getFramePrefix() + this.generateInDocument(element);
+  }
+
+  /**
+   * Selector within the element's document, piercing shadow roots
+   */
+  private generateInDocument(element: Element): string {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const local = this.generateInRoot(element, root);
+    return "host" in root
+      ? `${this.generateInDocument(root.host)} >> ${local}`
+      : local;
+  }
+
+  /**
+   * Selector unique within a document or shadow root
+   */
+  private generateInRoot(
+    element: Element,
+    root: Document | ShadowRoot,
+  ): string {
     // Try preferred attributes first
     const attributeSelector = this.getAttributeSelector(element);
-    if (attributeSelector && this.isUnique(element, attributeSelector)) {
+    if (attributeSelector && this.isUnique(element, attributeSelector, root)) {
       return attributeSelector;
     }
 
     // Try class-based selector
-    const classSelector = this.getClassSelector(element);
-    if (classSelector && this.isUnique(element, classSelector)) {
+    const classSelector = this.getClassSelector(element, root);
+    if (classSelector && this.isUnique(element, classSelector, root)) {
       return classSelector;
     }
 
@@ -71,6 +75,20 @@ export class StableSelectorEngine {
     return this.getStructuralPath(element);
   }
 
+  /**
+   * Selectors of the iframes enclosing the current document, each followed
+   * by " |> "; the page script prefixes its own selectors with it
+   */
+  getFramePrefix(): string {
+    let prefix = "";
+    for (let win: Window = window; win !== win.top; win = win.parent) {
+      const frame = win.frameElement;
+      if (!frame) return prefix;
+      prefix = `${this.generateInDocument(frame)} |> ${prefix}`;
+    }
+    return prefix;
+  }
+
   /**
    * Get selector based on preferred attributes
    */
@@ -92,7 +110,10 @@ export class StableSelectorEngine {
   /**
    * Get selector based on meaningful classes
    */
-  private getClassSelector(element: Element): string | null {
+  private getClassSelector(
+    element: Element,
+    root: Document | ShadowRoot,
+  ): string | null {
     const classes = Array.from(element.classList).filter((cls: string) =>
       this.isMeaningfulClass(cls),
     );
@@ -102,7 +123,7 @@ export class StableSelectorEngine {
     // Try single class first
     for (const cls of classes) {
       const selector = `${element.tagName.toLowerCase()}.${cls}`;
-      if (this.isUnique(element, selector)) {
+      if (this.isUnique(element, selector, root)) {
         return selector;
       }
     }
@@ -110,7 +131,7 @@ export class StableSelectorEngine {
     // Try combination of classes
     if (classes.length > 1) {
       const selector = `${element.tagName.toLowerCase()}.${classes.join(".")}`;
-      if (this.isUnique(element, selector)) {
+      if (this.isUnique(element, selector, root)) {
         return selector;
       }
     }
@@ -126,9 +147,10 @@ export class StableSelectorEngine {
     let current: Element | null = element;
     let depth = 0;
 
+    // Stops at a shadow root, where parentElement is null
     while (
       current &&
-      current !== document.documentElement &&
+      current !== element.ownerDocument.documentElement &&
       depth < this.options.maxDepth
     ) {
       let selector = current.tagName.toLowerCase();
@@ -190,9 +212,13 @@ export class StableSelectorEngine {
   /**
    * Check if selector uniquely identifies the element
    */
-  private isUnique(element: Element, selector: string): boolean {
+  private isUnique(
+    element: Element,
+    selector: string,
+    root: Document | ShadowRoot,
+  ): boolean {
     try {
-      const matches = document.querySelectorAll(selector);
+      const matches = root.querySelectorAll(selector);
       return matches.length === 1 && matches[0] === element;
     } catch {
       return false;
@@ -205,7 +231,7 @@ export class StableSelectorEngine {
  */
 export function getStableSelectorScript(): string {
   return `
-(${StableSelectorEngine.toString()})
+${bundleClasses(StableSelectorEngine)}
 
 // Create global instance
 window.__stableSelectorEngine = new StableSelectorEngine();
@@ -0,0 +1,195 @@
+/**
+ * Session Diff
+ *
+ * Compares animation profiles and interaction snapshots between two
+ * captures of the same flow. Numeric values are matched with a small
+ * tolerance because snapshots taken mid-transition never line up exactly.
+ */
+
+import { AnimationProfile, TraceRecord } from "./types";
+
+export interface ProfileDiff {
+  key: string;
+  name: string;
+  status: "missing" | "added" | "changed";
+  changes: string[];
+}
+
+export interface InteractionDiff {
+  index: number;
+  kind: string;
+  selector: string;
+  changes: string[];
+}
+
+type ProfileTiming = NonNullable<AnimationProfile["effect"]["timing"]>;
+
+// Absolute and relative tolerance for numeric components of CSS values
+const ABSOLUTE_TOLERANCE = 0.01;
+const RELATIVE_TOLERANCE = 0.05;
+
+/**
+ * Identity of a profile independent of run-specific naming
+ */
+export function profileKey(profile: AnimationProfile): string {
+  return [
+    profile.trigger.event,
+    profile.trigger.selector,
+    profile.effect.type,
+    profile.effect.target,
+  ].join("|");
+}
+
+/**
+ * Compare two profile lists; unchanged profiles are omitted
+ */
+export function compareProfiles(
+  baseline: AnimationProfile[],
+  candidate: AnimationProfile[],
+): ProfileDiff[] {
+  const diffs: ProfileDiff[] = [];
+  const candidateByKey = new Map<string, AnimationProfile>();
+  for (const profile of candidate) {
+    if (!candidateByKey.has(profileKey(profile))) {
+      candidateByKey.set(profileKey(profile), profile);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const profile of baseline) {
+    const key = profileKey(profile);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const match = candidateByKey.get(key);
+    if (!match) {
+      diffs.push({ key, name: profile.name, status: "missing", changes: [] });
+      continue;
+    }
+
+    const changes = compareEffects(profile, match);
+    if (changes.length > 0) {
+      diffs.push({ key, name: profile.name, status: "changed", changes });
+    }
+  }
+
+  for (const [key, profile] of candidateByKey) {
+    if (!seen.has(key)) {
+      diffs.push({ key, name: profile.name, status: "added", changes: [] });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Compare after-state snapshots of interactions, paired in order per target
+ */
+export function compareInteractions(
+  baseline: TraceRecord[],
+  candidate: TraceRecord[],
+): InteractionDiff[] {
+  const diffs: InteractionDiff[] = [];
+  const candidateQueues = new Map<string, TraceRecord[]>();
+
+  for (const trace of candidate) {
+    if (trace.type !== "interaction" || !trace.event) continue;
+    const key = `${trace.event.kind}|${trace.event.selector}`;
+    if (!candidateQueues.has(key)) candidateQueues.set(key, []);
+    candidateQueues.get(key)!.push(trace);
+  }
+
+  // Scroll samples are throttled and carry no snapshots, so only snapshot-bearing
+  // interactions are paired
+  baseline
+    .filter((trace) => trace.type === "interaction" && trace.event && trace.after)
+    .forEach((trace, index) => {
+      const event = trace.event!;
+      const key = `${event.kind}|${event.selector}`;
+      const match = candidateQueues.get(key)?.shift();
+      const changes: string[] = [];
+
+      if (!match) {
+        changes.push("interaction was not re-captured");
+      } else if (trace.after && match.after) {
+        const before = trace.after.style.computed;
+        const after = match.after.style.computed;
+        for (const prop of new Set([...Object.keys(before), ...Object.keys(after)])) {
+          if (!valuesMatch(before[prop] || "", after[prop] || "")) {
+            changes.push(`${prop}: ${before[prop] || "(none)"} → ${after[prop] || "(none)"}`);
+          }
+        }
+
+        const classesBefore = trace.after.dom?.classes.join(" ") || "";
+        const classesAfter = match.after.dom?.classes.join(" ") || "";
+        if (classesBefore !== classesAfter) {
+          changes.push(`classes: "${classesBefore}" → "${classesAfter}"`);
+        }
+      }
+
+      if (changes.length > 0) {
+        diffs.push({ index, kind: event.kind, selector: event.selector, changes });
+      }
+    });
+
+  return diffs;
+}
+
+/**
+ * Compare the effect of two profiles with the same key
+ */
+function compareEffects(baseline: AnimationProfile, candidate: AnimationProfile): string[] {
+  const changes: string[] = [];
+  const before = baseline.effect.properties;
+  const after = candidate.effect.properties;
+
+  for (const prop of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!before[prop]) {
+      changes.push(`${prop}: now animated (${after[prop].from} → ${after[prop].to})`);
+    } else if (!after[prop]) {
+      changes.push(`${prop}: no longer animated`);
+    } else {
+      if (!valuesMatch(before[prop].from, after[prop].from)) {
+        changes.push(`${prop}.from: ${before[prop].from} → ${after[prop].from}`);
+      }
+      if (!valuesMatch(before[prop].to, after[prop].to)) {
+        changes.push(`${prop}.to: ${before[prop].to} → ${after[prop].to}`);
+      }
+    }
+  }
+
+  const timingBefore: Partial<ProfileTiming> = baseline.effect.timing || {};
+  const timingAfter: Partial<ProfileTiming> = candidate.effect.timing || {};
+  for (const field of ["duration", "easing", "delay", "iterations", "direction", "fill"] as const) {
+    const from = timingBefore[field];
+    const to = timingAfter[field];
+    if (from === undefined && to === undefined) continue;
+    if (!valuesMatch(String(from ?? ""), String(to ?? ""))) {
+      changes.push(`timing.${field}: ${from ?? "(none)"} → ${to ?? "(none)"}`);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare CSS values, allowing small numeric drift
+ */
+export function valuesMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+
+  const pattern = /-?\d*\.?\d+(?:e[-+]?\d+)?/gi;
+  if (a.replace(pattern, "#") !== b.replace(pattern, "#")) return false;
+
+  const numbersA = (a.match(pattern) || []).map(Number);
+  const numbersB = (b.match(pattern) || []).map(Number);
+
+  return numbersA.every((value, i) => {
+    const other = numbersB[i];
+    const tolerance = Math.max(
+      ABSOLUTE_TOLERANCE,
+      RELATIVE_TOLERANCE * Math.max(Math.abs(value), Math.abs(other)),
+    );
+    return Math.abs(value - other) <= tolerance;
+  });
+}
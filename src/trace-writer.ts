@@ -6,7 +6,47 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { TraceRecord, CaptureSession, AnimationProfile } from './types';
+import {
+  TraceRecord,
+  CaptureSession,
+  AnimationProfile,
+  BrowserName,
+  DeviceEmulation,
+  CaptureVariant,
+  CapturedAnimation,
+  GesturePoint,
+  InteractionEvent,
+  DOMEffect,
+  EffectChain,
+  NavigationEvent,
+  PerformanceSample,
+  ProfilePerformance,
+  RenderingMetrics,
+  ScreenshotSet,
+  ScrollKeyframe,
+  SourceRules,
+} from './types';
+import { EasingFitter } from './easing-fit';
+import { EffectChainBuilder } from './effect-chains';
+import { formatKeyLabel } from './keys';
+import { describeEmulation, formatKeyframe } from './format';
+
+// Max delay between an interaction and an animation it is assumed to have started
+const TRIGGER_WINDOW_MS = 1000;
+
+// Offsets within this many pixels count as the same position
+const GESTURE_REST_TOLERANCE = 2;
+
+// Momentum keeps at least this share of the release speed just after release
+const MOMENTUM_WINDOW_MS = 50;
+const MOMENTUM_SPEED_RATIO = 0.5;
+
+// Properties that force layout on every frame when animated
+const LAYOUT_PROPERTY = /^(?:width|height|top|left|right|bottom|inset(?:-[a-z-]+)?|margin(?:-[a-z]+)?|padding(?:-[a-z]+)?|border(?:-[a-z]+)?-width|font-size|line-height|(?:min|max)-(?:width|height))$/;
+
+// Measured windows past these limits are flagged as janky
+const JANK_DROPPED_FRAMES = 2;
+const JANK_LAYOUT_SHIFT = 0.05;
 
 export class TraceWriter {
   private sessionDir: string;
@@ -33,6 +73,35 @@ export class TraceWriter {
     };
   }
 
+  /**
+   * Record the device settings the session was captured with
+   */
+  setEmulation(emulation: DeviceEmulation): void {
+    this.session.emulation = emulation;
+  }
+
+  /**
+   * Record the browser engine the session was captured in
+   */
+  setBrowser(browser: BrowserName): void {
+    this.session.browser = browser;
+  }
+
+  /**
+   * Mark the session as a variant of another session
+   */
+  setVariant(variant: CaptureVariant, parentSession?: string): void {
+    this.session.variant = variant;
+    this.session.parentSession = parentSession;
+  }
+
+  /**
+   * Record the HAR the session's network traffic was recorded to or replayed from
+   */
+  setHar(mode: 'record' | 'replay', file: string): void {
+    this.session.har = { mode, file };
+  }
+
   /**
    * Append a trace record
    */
@@ -49,13 +118,23 @@ export class TraceWriter {
    * Extract animation profiles from traces
    */
   extractProfiles(): AnimationProfile[] {
-    const profiles: AnimationProfile[] = [];
+    // What each interaction set off, wherever in the document it happened
+    this.session.effectChains = new EffectChainBuilder(
+      event => this.describeTriggerEvent(event)
+    ).build(this.session.traces);
+
+    // Ground truth from the Web Animations API comes first
+    const triggeringInteractions = new Set<TraceRecord>();
+    const profiles: AnimationProfile[] = this.extractAnimationProfiles(triggeringInteractions);
+
+    // Gestures explain the motion they caused better than target snapshots do
+    profiles.push(...this.extractGestureProfiles(triggeringInteractions));
 
-    // Group traces by selector
+    // Group remaining traces by selector
     const bySelector = new Map<string, TraceRecord[]>();
     
     for (const trace of this.session.traces) {
-      if (trace.type === 'interaction' && trace.event) {
+      if (trace.type === 'interaction' && trace.event && !triggeringInteractions.has(trace)) {
         const selector = trace.event.selector;
         if (!bySelector.has(selector)) {
           bySelector.set(selector, []);
@@ -80,10 +159,878 @@ export class TraceWriter {
       }
     }
 
+    // UI effects caused by keyboard shortcuts and navigation keys
+    profiles.push(...this.extractKeyboardProfiles());
+
+    // Views swapped in and out by client-side routing
+    profiles.push(...this.extractRouteProfiles());
+
+    // Elements changed elsewhere by an interaction (dropdowns, toasts, lists)
+    profiles.push(...this.extractChainProfiles(profiles));
+
+    // Components recognized in a chain name the profiles of their element
+    this.applyPatterns(profiles);
+
+    // Effects expressed as a function of scroll position
+    profiles.push(...this.extractScrollProfiles(profiles));
+
+    // Frame-sampled curves refine (or, for JS-driven motion, create) profiles
+    this.applyCurveFits(profiles);
+
+    // The author's rules are a better basis for reconstruction than computed values
+    this.attachSourceRules(profiles);
+
+    // Jank measured after the trigger, and properties that cause it
+    this.attachPerformance(profiles);
+
     this.session.profiles = profiles;
     return profiles;
   }
 
+  /**
+   * Build profiles from captured keyframes and effect timing
+   */
+  private extractAnimationProfiles(triggeringInteractions: Set<TraceRecord>): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const seen = new Set<string>();
+
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'animation' || !trace.animation) continue;
+
+      const animation = trace.animation;
+      const timeline = animation.timeline;
+      const scrollDriven = timeline && timeline.type !== 'document';
+
+      let trigger: AnimationProfile['trigger'];
+      let navigation: NavigationEvent | undefined;
+      if (scrollDriven) {
+        trigger = { event: 'scroll', selector: timeline.source || 'document' };
+      } else {
+        const resolved = this.resolveTrigger(trace.ts, animation.selector, trace.pageId);
+        trigger = resolved.trigger;
+        navigation = resolved.navigation?.navigation;
+        if (resolved.interaction) {
+          triggeringInteractions.add(resolved.interaction);
+        }
+      }
+
+      // Repeated runs of the same effect collapse into one profile
+      const key = [trigger.event, trigger.selector, animation.kind, animation.name, animation.selector].join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const target = animation.pseudoElement
+        ? `${animation.selector}${animation.pseudoElement}`
+        : animation.selector;
+
+      profiles.push({
+        name: `${trigger.event}-${animation.name || animation.kind}-on-${animation.selector.split(' ').pop() || 'element'}`,
+        trigger,
+        effect: {
+          type: navigation
+            ? 'route-transition'
+            : animation.kind === 'css-transition' ? 'transition' : 'animation',
+          target,
+          properties: this.getKeyframeProperties(animation),
+          timing: {
+            duration: `${animation.timing.duration}ms`,
+            easing: this.getAnimationEasing(animation),
+            delay: `${animation.timing.delay}ms`,
+            iterations: animation.timing.iterations,
+            direction: animation.timing.direction,
+            fill: animation.timing.fill,
+          },
+          keyframes: animation.keyframes,
+          scroll: scrollDriven
+            ? { container: timeline.source || 'document', axis: timeline.axis || 'block', timeline: timeline.type as 'scroll' | 'view' }
+            : undefined,
+          route: navigation
+            ? { navigation: navigation.kind, from: navigation.from, to: navigation.to }
+            : undefined,
+        },
+      });
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Build profiles for elements a key press changed (modals, carousels, palettes)
+   */
+  private extractKeyboardProfiles(): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const seen = new Set<string>();
+
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'interaction' || !trace.event || !trace.keyEffects?.length) continue;
+
+      const event = this.describeTriggerEvent(trace.event);
+      const intent = this.classifyKeyEffects(trace.event.key || '', trace.keyEffects);
+
+      profiles.push(
+        ...this.buildDOMEffectProfiles(
+          { event, selector: trace.event.selector },
+          trace.keyEffects,
+          () => intent,
+          seen,
+        ),
+      );
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Build profiles for views a same-document navigation swapped in or out
+   */
+  private extractRouteProfiles(): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const seen = new Set<string>();
+
+    for (const trace of this.session.traces) {
+      const navigation = trace.navigation;
+      if (trace.type !== 'navigation' || !navigation?.effects?.length) continue;
+
+      const trigger = this.describeRouteTrigger(trace);
+      const route = { navigation: navigation.kind, from: navigation.from, to: navigation.to };
+      const routeProfiles = this.buildDOMEffectProfiles(
+        trigger,
+        navigation.effects,
+        effects => this.classifyRouteEffects(effects),
+        seen,
+      );
+
+      for (const profile of routeProfiles) {
+        profile.effect.type = 'route-transition';
+        profile.effect.route = route;
+      }
+      profiles.push(...routeProfiles);
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Build profiles for DOM changes an interaction caused on other elements,
+   * unless a profile already covers the element for that trigger
+   */
+  private extractChainProfiles(existing: AnimationProfile[]): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const seen = new Set(
+      existing.map(p => `${p.trigger.event}|${p.trigger.selector}|${p.effect.target}`)
+    );
+
+    for (const chain of this.session.effectChains || []) {
+      const effects: DOMEffect[] = [];
+      for (const step of chain.steps) {
+        if (step.target === chain.trigger.selector) continue;
+
+        if (step.kind === 'added' || step.kind === 'removed') {
+          effects.push({ selector: step.target, change: step.kind });
+        } else if (step.kind === 'modified') {
+          for (const [attribute, { from, to }] of Object.entries(step.properties || {})) {
+            effects.push({ selector: step.target, change: 'attribute', attribute, from, to });
+          }
+        }
+      }
+
+      const trigger = { event: chain.trigger.event, selector: chain.trigger.selector };
+      profiles.push(...this.buildDOMEffectProfiles(
+        trigger,
+        effects,
+        // Loading states are added and removed again within the chain
+        effects => effects.some(e => e.change === 'added') && effects.some(e => e.change === 'removed')
+          ? 'transient'
+          : this.classifyRouteEffects(effects),
+        seen,
+      ));
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Tag and rename profiles of the component a chain was recognized as,
+   * e.g. "click-enter-on-ul.menu" becomes "dropdown-open-on-ul.menu"
+   */
+  private applyPatterns(profiles: AnimationProfile[]): void {
+    for (const chain of this.session.effectChains || []) {
+      const pattern = chain.pattern;
+      if (!pattern) continue;
+
+      for (const profile of profiles) {
+        if (profile.pattern) continue;
+        if (profile.trigger.event !== chain.trigger.event || profile.trigger.selector !== chain.trigger.selector) continue;
+        if (!profile.effect.target.startsWith(pattern.target)) continue;
+
+        profile.pattern = pattern;
+        profile.name = `${pattern.pattern}-${pattern.action}-on-${profile.effect.target.split(' ').pop() || 'element'}`;
+      }
+    }
+  }
+
+  /**
+   * Label a view's part in a route change: entering, leaving or updated in place
+   */
+  private classifyRouteEffects(effects: DOMEffect[]): string {
+    if (effects.some(e => e.change === 'added')) return 'enter';
+    if (effects.some(e => e.change === 'removed')) return 'leave';
+    return 'update';
+  }
+
+  /**
+   * One profile per element changed by a key press or navigation
+   */
+  private buildDOMEffectProfiles(
+    trigger: AnimationProfile['trigger'],
+    domEffects: DOMEffect[],
+    classify: (effects: DOMEffect[]) => string,
+    seen: Set<string>,
+  ): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+
+    const byTarget = new Map<string, DOMEffect[]>();
+    for (const effect of domEffects) {
+      if (!byTarget.has(effect.selector)) {
+        byTarget.set(effect.selector, []);
+      }
+      byTarget.get(effect.selector)!.push(effect);
+    }
+
+    for (const [target, effects] of byTarget) {
+      const key = `${trigger.event}|${trigger.selector}|${target}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const properties: Record<string, { from: string; to: string }> = {};
+      for (const effect of effects) {
+        if (effect.change === 'attribute' && effect.attribute) {
+          properties[effect.attribute] = { from: effect.from ?? '', to: effect.to ?? '' };
+        } else {
+          const added = effect.change === 'added';
+          properties['dom'] = { from: added ? 'absent' : 'present', to: added ? 'present' : 'absent' };
+        }
+      }
+
+      profiles.push({
+        name: `${trigger.event}-${classify(effects)}-on-${target.split(' ').pop() || 'element'}`,
+        trigger,
+        effect: {
+          type: effects.some(e => e.attribute === 'class') ? 'class-toggle' : 'dom-manipulation',
+          target,
+          properties,
+        },
+      });
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Label what a key press did: dismiss (Escape), navigate (arrows), open, close
+   */
+  private classifyKeyEffects(key: string, effects: DOMEffect[]): string {
+    const hides = effects.some(e =>
+      e.change === 'removed' ||
+      e.visible === false ||
+      (e.attribute === 'open' && e.to === undefined) ||
+      (e.attribute === 'aria-hidden' && e.to === 'true') ||
+      (e.attribute === 'aria-expanded' && e.to === 'false')
+    );
+    const shows = effects.some(e =>
+      (e.change === 'added' && e.visible) ||
+      (e.attribute === 'open' && e.to !== undefined) ||
+      (e.attribute === 'aria-hidden' && e.to === 'false') ||
+      (e.attribute === 'aria-expanded' && e.to === 'true')
+    );
+
+    if (key === 'Escape' && hides) return 'dismiss';
+    if (/^(Arrow|Page)|^(Home|End|Tab)$/.test(key)) return 'navigate';
+    if (shows) return 'open';
+    if (hides) return 'close';
+    return 'update';
+  }
+
+  /**
+   * Trigger name for an interaction; keys include the combo, e.g. "keydown:Meta+K",
+   * gestures their direction, e.g. "swipe:left"
+   */
+  private describeTriggerEvent(event: InteractionEvent): string {
+    if (event.gesture) {
+      const { type, direction } = event.gesture;
+      return direction === 'none' ? type : `${type}:${direction}`;
+    }
+
+    if (!event.key || !['keydown', 'keyup', 'keypress'].includes(event.kind)) {
+      return event.kind;
+    }
+
+    return `${event.kind}:${formatKeyLabel(event.key, event.modifiers)}`;
+  }
+
+  /**
+   * Relate drags, swipes and long-presses to the motion of the element they
+   * moved: how closely it followed the pointer and what it did on release
+   */
+  private extractGestureProfiles(handledInteractions: Set<TraceRecord>): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const seen = new Set<string>();
+    const fitter = new EasingFitter();
+
+    for (const trace of this.session.traces) {
+      const gesture = trace.event?.gesture;
+      const response = trace.gestureResponse;
+      if (!trace.event || !gesture || !response || response.offsets.length === 0) continue;
+
+      const offsets = response.offsets;
+      const final = offsets[offsets.length - 1];
+      const release = [...offsets].reverse().find(o => o.t <= gesture.duration) || offsets[0];
+
+      const axis: 'x' | 'y' = gesture.direction === 'up' || gesture.direction === 'down' ||
+        (gesture.direction === 'none' && Math.abs(final.y) > Math.abs(final.x))
+        ? 'y'
+        : 'x';
+      const pointerDelta = gesture.path[gesture.path.length - 1][axis] - gesture.path[0][axis];
+      const releaseVelocity = gesture.velocity[axis];
+      const afterRelease = offsets.filter(o => o.t >= release.t);
+
+      const behavior = this.classifyGestureBehavior(afterRelease, axis, releaseVelocity);
+      if (!behavior) continue;
+      handledInteractions.add(trace);
+
+      const event = this.describeTriggerEvent(trace.event);
+      const key = `${event}|${trace.event.selector}|${response.selector}|${behavior}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // Overshoot past the resting position in the direction of travel (springy release)
+      const travel = Math.sign(final[axis] - release[axis]);
+      const overshoot = travel === 0
+        ? 0
+        : Math.max(0, ...afterRelease.map(o => (o[axis] - final[axis]) * travel));
+
+      // Displacement from release to rest; timing below describes the same motion
+      const properties: Record<string, { from: string; to: string }> = {
+        translate: { from: `${release.x}px ${release.y}px`, to: `${final.x}px ${final.y}px` },
+      };
+      for (const prop of Object.keys(response.after)) {
+        if (response.before[prop] !== response.after[prop]) {
+          properties[prop] = { from: response.before[prop] || '', to: response.after[prop] || '' };
+        }
+      }
+
+      // Post-release motion as a curve, so momentum and snapping get an easing
+      const fit = behavior === 'follow' ? null : fitter.fit({
+        selector: response.selector,
+        source: 'interaction',
+        properties: ['translate'],
+        samples: afterRelease.map(o => ({
+          t: o.t - release.t,
+          values: { translate: `${o.x}px ${o.y}px` },
+        })),
+      });
+
+      profiles.push({
+        name: `${event}-${behavior}-on-${response.selector.split(' ').pop() || 'element'}`,
+        trigger: { event, selector: trace.event.selector },
+        effect: {
+          type: 'gesture',
+          target: response.selector,
+          properties,
+          timing: fit
+            ? { duration: `${fit.duration}ms`, easing: fit.easing, delay: `${fit.delay}ms` }
+            : undefined,
+          fittedEasing: fit || undefined,
+          gesture: {
+            type: gesture.type,
+            behavior,
+            axis,
+            followRatio: pointerDelta !== 0 ? Math.round((release[axis] / pointerDelta) * 100) / 100 : 0,
+            releaseVelocity,
+            releaseOffset: release[axis],
+            finalOffset: final[axis],
+            overshoot: overshoot > GESTURE_REST_TOLERANCE ? overshoot : undefined,
+            dropTarget: gesture.dropTarget,
+          },
+        },
+      });
+    }
+
+    return profiles;
+  }
+
+  /**
+   * What the moved element did after release: stayed put (follow), coasted
+   * on in the release direction (momentum), settled elsewhere (snap), or
+   * returned to where it started (snap-back)
+   */
+  private classifyGestureBehavior(
+    afterRelease: GesturePoint[],
+    axis: 'x' | 'y',
+    releaseVelocity: number,
+  ): NonNullable<AnimationProfile['effect']['gesture']>['behavior'] | null {
+    const release = afterRelease[0];
+    const final = afterRelease[afterRelease.length - 1];
+    const settled = final[axis] - release[axis];
+
+    if (Math.abs(release[axis]) <= GESTURE_REST_TOLERANCE && Math.abs(final[axis]) <= GESTURE_REST_TOLERANCE) {
+      return null;
+    }
+    if (Math.abs(settled) <= GESTURE_REST_TOLERANCE) return 'follow';
+    if (Math.abs(final[axis]) <= GESTURE_REST_TOLERANCE) return 'snap-back';
+    if (Math.sign(settled) !== Math.sign(releaseVelocity)) return 'snap';
+
+    // Momentum carries the release speed; a snap animates at its own pace
+    const early = afterRelease.find(o => o.t - release.t >= MOMENTUM_WINDOW_MS);
+    if (!early) return 'snap';
+    const initialSpeed = Math.abs(early[axis] - release[axis]) / (early.t - release.t);
+    return initialSpeed >= Math.abs(releaseVelocity) * MOMENTUM_SPEED_RATIO ? 'momentum' : 'snap';
+  }
+
+  /**
+   * Build reveal-on-scroll and scroll-linked (parallax, sticky) profiles
+   */
+  private extractScrollProfiles(existing: AnimationProfile[]): AnimationProfile[] {
+    const profiles: AnimationProfile[] = [];
+    const revealed = new Set<string>();
+
+    // Reveal on viewport entry; WAAPI profiles already hold the real timing
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'intersection' || !trace.intersection) continue;
+
+      const { selector, before, after, scroll } = trace.intersection;
+      const properties = this.diffComputedStyles(before.computed, after.computed);
+
+      const classesChanged = before.classes.join(' ') !== after.classes.join(' ');
+      if (Object.keys(properties).length === 0 && !classesChanged) continue;
+
+      revealed.add(selector);
+      const known = [...existing, ...profiles].some(p =>
+        p.trigger.event === 'enter-viewport' && p.effect.target === selector
+      );
+      if (known) continue;
+
+      profiles.push({
+        name: `enter-viewport-on-${selector.split(' ').pop() || 'element'}`,
+        trigger: { event: 'enter-viewport', selector },
+        effect: {
+          type: classesChanged ? 'class-toggle' : 'transition',
+          target: selector,
+          properties,
+          scroll: {
+            container: scroll.container,
+            axis: 'y',
+            keyframes: [{
+              offset: scroll.y,
+              progress: scroll.maxY > 0 ? this.roundProgress(scroll.y / scroll.maxY) : 0,
+              values: after.computed,
+            }],
+          },
+        },
+      });
+    }
+
+    // Group per-offset style samples by container and element
+    const linked = new Map<string, {
+      container: string;
+      selector: string;
+      samples: Array<{ x: number; y: number; maxX: number; maxY: number; values: Record<string, string> }>;
+    }>();
+
+    for (const trace of this.session.traces) {
+      const scroll = trace.event?.kind === 'scroll' ? trace.event.scroll : undefined;
+      if (!scroll || !trace.scrollSamples) continue;
+
+      for (const sample of trace.scrollSamples) {
+        if (revealed.has(sample.selector)) continue;
+
+        const key = `${scroll.container}|${sample.selector}`;
+        if (!linked.has(key)) {
+          linked.set(key, { container: scroll.container, selector: sample.selector, samples: [] });
+        }
+        linked.get(key)!.samples.push({ ...scroll, values: sample.computed });
+      }
+    }
+
+    for (const { container, selector, samples } of linked.values()) {
+      const changing = Object.keys(samples[0].values).filter(prop =>
+        new Set(samples.map(sample => sample.values[prop])).size > 1
+      );
+      if (changing.length === 0) continue;
+
+      const axis = new Set(samples.map(sample => sample.y)).size > 1 ? 'y' : 'x';
+
+      // One keyframe per distinct offset, ordered along the scroll axis
+      const byOffset = new Map<number, ScrollKeyframe>();
+      for (const sample of samples) {
+        const offset = axis === 'y' ? sample.y : sample.x;
+        const max = axis === 'y' ? sample.maxY : sample.maxX;
+        const values: Record<string, string> = {};
+        for (const prop of changing) {
+          values[prop] = sample.values[prop];
+        }
+        byOffset.set(offset, {
+          offset,
+          progress: max > 0 ? this.roundProgress(offset / max) : 0,
+          values,
+        });
+      }
+      const keyframes = [...byOffset.values()].sort((a, b) => a.offset - b.offset);
+
+      const properties: Record<string, { from: string; to: string }> = {};
+      for (const prop of changing) {
+        properties[prop] = {
+          from: keyframes[0].values[prop],
+          to: keyframes[keyframes.length - 1].values[prop],
+        };
+      }
+
+      profiles.push({
+        name: `scroll-linked-on-${selector.split(' ').pop() || 'element'}`,
+        trigger: { event: 'scroll', selector: container },
+        effect: {
+          type: 'scroll-linked',
+          target: selector,
+          properties,
+          scroll: { container, axis, keyframes },
+        },
+      });
+    }
+
+    return profiles;
+  }
+
+  private roundProgress(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  /**
+   * Work out what started an effect on `selector` at `ts`: the element
+   * entering the viewport, a route change, a preceding interaction, or
+   * nothing ('auto')
+   */
+  private resolveTrigger(ts: number, selector: string, pageId?: string): {
+    trigger: AnimationProfile['trigger'];
+    interaction?: TraceRecord;
+    navigation?: TraceRecord;
+  } {
+    const entered = this.session.traces.some(trace =>
+      trace.type === 'intersection' &&
+      trace.intersection?.selector === selector &&
+      ts >= trace.ts && ts - trace.ts <= TRIGGER_WINDOW_MS
+    );
+    if (entered) {
+      return { trigger: { event: 'enter-viewport', selector } };
+    }
+
+    // A route change after the last interaction is the closer cause
+    const interaction = this.findTriggeringInteraction(ts);
+    const navigation = this.findRouteChange(ts, pageId);
+    if (navigation && !(interaction && interaction.ts > navigation.ts)) {
+      return {
+        trigger: this.describeRouteTrigger(navigation),
+        interaction: this.findTriggeringInteraction(navigation.ts),
+        navigation,
+      };
+    }
+
+    if (interaction?.event) {
+      return {
+        trigger: { event: this.describeTriggerEvent(interaction.event), selector: interaction.event.selector },
+        interaction,
+      };
+    }
+
+    // Effects that waited on a response are still part of the interaction's chain
+    const chain = this.findEffectChain(ts, selector);
+    if (chain) {
+      return {
+        trigger: { event: chain.trigger.event, selector: chain.trigger.selector },
+        interaction: this.session.traces.find(t => t.type === 'interaction' && t.ts === chain.trigger.ts),
+      };
+    }
+
+    return { trigger: { event: 'auto', selector } };
+  }
+
+  /**
+   * Attach easings fitted from frame-sampled property curves
+   */
+  private applyCurveFits(profiles: AnimationProfile[]): void {
+    const fitter = new EasingFitter();
+
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'curve' || !trace.curve) continue;
+
+      const curve = trace.curve;
+      const fit = fitter.fit(curve);
+      if (!fit) continue;
+
+      const target = curve.pseudoElement ? `${curve.selector}${curve.pseudoElement}` : curve.selector;
+      const { trigger } = this.resolveTrigger(trace.ts, curve.selector, trace.pageId);
+
+      const candidates = profiles.filter(p => p.effect.target === target);
+      const profile = candidates.find(p =>
+        p.trigger.event === trigger.event && p.trigger.selector === trigger.selector
+      ) || candidates[0];
+
+      if (profile) {
+        if (profile.effect.fittedEasing) continue;
+        profile.effect.fittedEasing = fit;
+
+        // Declared keyframe timing is ground truth; only replace guesses
+        if (!profile.effect.keyframes) {
+          profile.effect.timing = {
+            ...profile.effect.timing,
+            duration: `${fit.duration}ms`,
+            easing: fit.easing,
+            delay: `${fit.delay}ms`,
+          };
+        }
+        continue;
+      }
+
+      // No CSS or WAAPI trace explains this motion, so it is script-driven
+      const first = curve.samples[0].values;
+      const last = curve.samples[curve.samples.length - 1].values;
+      const properties: Record<string, { from: string; to: string }> = {};
+      for (const prop of curve.properties) {
+        properties[prop] = { from: first[prop] || '', to: last[prop] || '' };
+      }
+
+      profiles.push({
+        name: `${trigger.event}-scripted-on-${curve.selector.split(' ').pop() || 'element'}`,
+        trigger,
+        effect: {
+          type: 'scripted',
+          target,
+          properties,
+          timing: {
+            duration: `${fit.duration}ms`,
+            easing: fit.easing,
+            delay: `${fit.delay}ms`,
+          },
+          fittedEasing: fit,
+        },
+      });
+    }
+  }
+
+  /**
+   * Find the most recent page load or route change on the same page before `ts`
+   */
+  private findRouteChange(ts: number, pageId?: string): TraceRecord | undefined {
+    let match: TraceRecord | undefined;
+
+    for (const trace of this.session.traces) {
+      const kind = trace.navigation?.kind;
+      if (trace.type !== 'navigation' || !kind || kind === 'open' || kind === 'close') continue;
+      if (pageId && trace.pageId && trace.pageId !== pageId) continue;
+      if (trace.ts > ts || ts - trace.ts > TRIGGER_WINDOW_MS) continue;
+      if (!match || trace.ts >= match.ts) {
+        match = trace;
+      }
+    }
+
+    return match;
+  }
+
+  /**
+   * Trigger for a navigation, e.g. "navigate:push" on the link that caused it
+   */
+  private describeRouteTrigger(navigation: TraceRecord): AnimationProfile['trigger'] {
+    const cause = this.findTriggeringInteraction(navigation.ts);
+    return {
+      event: `navigate:${navigation.navigation!.kind}`,
+      selector: cause?.event?.selector || 'document',
+    };
+  }
+
+  /**
+   * Find the chain an effect on the element at this time was attributed to
+   */
+  private findEffectChain(ts: number, selector: string): EffectChain | undefined {
+    return (this.session.effectChains || []).find(chain =>
+      chain.steps.some(step =>
+        chain.trigger.ts + step.offset === ts && step.target.startsWith(selector)
+      )
+    );
+  }
+
+  /**
+   * Find the most recent interaction that could have started an animation
+   */
+  private findTriggeringInteraction(ts: number): TraceRecord | undefined {
+    let match: TraceRecord | undefined;
+
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'interaction' || !trace.event) continue;
+
+      // Gestures are stamped at pointerdown but trigger effects on release
+      const end = trace.ts + (trace.event.gesture?.duration || 0);
+      if (trace.ts > ts || ts - end > TRIGGER_WINDOW_MS) continue;
+      if (!match || trace.ts >= match.ts) {
+        match = trace;
+      }
+    }
+
+    return match;
+  }
+
+  /**
+   * Derive from/to values from the first and last keyframes
+   */
+  private getKeyframeProperties(animation: CapturedAnimation): Record<string, { from: string; to: string }> {
+    const properties: Record<string, { from: string; to: string }> = {};
+    const first = animation.keyframes[0];
+    const last = animation.keyframes[animation.keyframes.length - 1];
+    if (!first || !last) return properties;
+
+    for (const frame of animation.keyframes) {
+      for (const prop of Object.keys(frame)) {
+        if (prop === 'offset' || prop === 'easing' || prop === 'composite' || properties[prop]) continue;
+        properties[prop] = {
+          from: first[prop] !== undefined ? String(first[prop]) : '',
+          to: last[prop] !== undefined ? String(last[prop]) : '',
+        };
+      }
+    }
+
+    return properties;
+  }
+
+  /**
+   * CSS animations carry their timing function on keyframes, not the effect
+   */
+  private getAnimationEasing(animation: CapturedAnimation): string {
+    if (animation.timing.easing && animation.timing.easing !== 'linear') {
+      return animation.timing.easing;
+    }
+
+    const keyframeEasing = animation.keyframes[0]?.easing;
+    return keyframeEasing || 'linear';
+  }
+
+  /**
+   * Attach the CSS rules and @keyframes reported for each profile's target
+   */
+  private attachSourceRules(profiles: AnimationProfile[]): void {
+    const bySelector = new Map<string, SourceRules>();
+    for (const trace of this.session.traces) {
+      if (trace.type === 'rules' && trace.rules && !bySelector.has(trace.rules.selector)) {
+        bySelector.set(trace.rules.selector, trace.rules);
+      }
+    }
+
+    for (const profile of profiles) {
+      const found = bySelector.get(profile.effect.target);
+      if (found) {
+        profile.sourceRules = { rules: found.rules, keyframes: found.keyframes };
+      }
+    }
+  }
+
+  /**
+   * Attach rendering metrics to the interactions they followed and, merged
+   * into worst values, to the profiles of those interactions
+   */
+  private attachPerformance(profiles: AnimationProfile[]): void {
+    const samples = this.session.traces
+      .filter(t => t.type === 'performance' && t.performance)
+      .map(t => t.performance!);
+
+    for (const trace of this.session.traces) {
+      if (trace.type !== 'interaction' || !trace.event) continue;
+      const sample = samples.find(s => s.trigger.ts === trace.ts && s.trigger.selector === trace.event!.selector);
+      if (sample) {
+        const { trigger, ...metrics } = sample;
+        trace.rendering = metrics;
+      }
+    }
+
+    for (const profile of profiles) {
+      const matching = samples.filter(s =>
+        s.trigger.event === profile.trigger.event &&
+        (s.trigger.selector === profile.trigger.selector || s.trigger.selector === profile.effect.target)
+      );
+      const layoutProperties = this.getLayoutProperties(profile);
+
+      if (matching.length === 0 && layoutProperties.length === 0) continue;
+
+      const performance: ProfilePerformance = {
+        samples: matching.length,
+        ...(matching.length > 0 ? this.mergeWorst(matching) : {}),
+      };
+      if (layoutProperties.length > 0) {
+        performance.layoutProperties = layoutProperties;
+      }
+      profile.performance = performance;
+    }
+  }
+
+  /**
+   * Worst value of each metric across measured windows
+   */
+  private mergeWorst(samples: PerformanceSample[]): RenderingMetrics {
+    const worst = (values: Array<number | undefined>) => {
+      const defined = values.filter((v): v is number => v !== undefined);
+      return defined.length > 0 ? Math.max(...defined) : undefined;
+    };
+    const pick = (key: keyof RenderingMetrics) => worst(samples.map(s => s[key]));
+
+    return {
+      duration: pick('duration')!,
+      frames: pick('frames')!,
+      droppedFrames: pick('droppedFrames')!,
+      longestFrame: pick('longestFrame')!,
+      longTasks: pick('longTasks')!,
+      longTaskTime: pick('longTaskTime')!,
+      layoutShift: pick('layoutShift')!,
+      pageStyleRecalcs: pick('pageStyleRecalcs'),
+      pageStyleRecalcTime: pick('pageStyleRecalcTime'),
+      pageLayouts: pick('pageLayouts'),
+      pageLayoutTime: pick('pageLayoutTime'),
+    };
+  }
+
+  /**
+   * Layout-triggering properties among the changed properties and keyframes
+   */
+  private getLayoutProperties(profile: AnimationProfile): string[] {
+    const animated = new Set(Object.keys(profile.effect.properties));
+    for (const frame of profile.effect.keyframes || []) {
+      Object.keys(frame).forEach(prop => animated.add(prop));
+    }
+
+    // Only changes that animate count; a display or class swap is instant
+    const { type, timing, keyframes, fittedEasing } = profile.effect;
+    const animates = !['class-toggle', 'dom-manipulation'].includes(type) || !!timing || !!keyframes?.length || !!fittedEasing;
+    if (!animates) return [];
+
+    return [...animated]
+      .map(prop => prop.replace(/^::[a-z-]+\./, ''))
+      .filter((prop, i, all) => LAYOUT_PROPERTY.test(prop) && all.indexOf(prop) === i);
+  }
+
+  /**
+   * Changed computed values; pseudo-elements and custom properties can
+   * appear or disappear between snapshots, so keys of both sides count
+   */
+  private diffComputedStyles(
+    before: Record<string, string>,
+    after: Record<string, string>,
+  ): Record<string, { from: string; to: string }> {
+    const properties: Record<string, { from: string; to: string }> = {};
+
+    for (const prop of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (before[prop] !== after[prop]) {
+        properties[prop] = { from: before[prop] || '', to: after[prop] || '' };
+      }
+    }
+
+    return properties;
+  }
+
   /**
    * Find consistent style changes across traces
    */
@@ -103,16 +1050,7 @@ export class TraceWriter {
       const afterStyle = trace.after.style.computed;
 
       // Find what changed
-      const properties: Record<string, { from: string; to: string }> = {};
-      
-      for (const prop in afterStyle) {
-        if (beforeStyle[prop] !== afterStyle[prop]) {
-          properties[prop] = {
-            from: beforeStyle[prop] || '',
-            to: afterStyle[prop] || '',
-          };
-        }
-      }
+      const properties = this.diffComputedStyles(beforeStyle, afterStyle);
 
       if (Object.keys(properties).length > 0) {
         // Determine effect type
@@ -133,7 +1071,7 @@ export class TraceWriter {
 
         changes.push({
           trigger: {
-            event: trace.event.kind,
+            event: this.describeTriggerEvent(trace.event),
             selector: trace.event.selector,
           },
           effect: {
@@ -155,6 +1093,8 @@ export class TraceWriter {
   generateSummary(): string {
     const interactions = this.session.traces.filter(t => t.type === 'interaction');
     const mutations = this.session.traces.filter(t => t.type === 'mutation');
+    const animations = this.session.traces.filter(t => t.type === 'animation');
+    const navigations = this.session.traces.filter(t => t.type === 'navigation');
     const profiles = this.session.profiles;
 
     const duration = this.session.endTime 
@@ -164,20 +1104,58 @@ export class TraceWriter {
     let summary = `# Animation Capture Session\n\n`;
     summary += `**URL**: ${this.session.url}\n`;
     summary += `**Duration**: ${duration.toFixed(1)}s\n`;
-    summary += `**Session ID**: ${this.session.id}\n\n`;
+    summary += `**Session ID**: ${this.session.id}\n`;
+    if (this.session.variant) {
+      summary += `**Variant**: ${this.session.variant.name} of \`${this.session.parentSession}\`\n`;
+    }
+    if (this.session.browser) {
+      summary += `**Browser**: ${this.session.browser}\n`;
+    }
+    if (this.session.har) {
+      const action = this.session.har.mode === 'record' ? 'recorded to' : 'replayed from';
+      summary += `**Network**: ${action} \`${this.session.har.file}\`\n`;
+    }
+    if (this.session.emulation) {
+      summary += `**Device**: ${describeEmulation(this.session.emulation)}\n`;
+    }
+    summary += `\n`;
     
     summary += `## Statistics\n\n`;
     summary += `- Total traces: ${this.session.traces.length}\n`;
     summary += `- Interactions captured: ${interactions.length}\n`;
     summary += `- DOM mutations: ${mutations.length}\n`;
+    summary += `- Animations observed: ${animations.length}\n`;
+    summary += `- Navigations: ${navigations.length}\n`;
     summary += `- Animation profiles extracted: ${profiles.length}\n\n`;
 
+    if (navigations.length > 0) {
+      summary += `## Navigations\n\n`;
+      for (const trace of navigations) {
+        const { kind, from, to, opener } = trace.navigation!;
+        const origin = kind === 'open' && opener ? ` (opened by ${opener})` : '';
+        summary += `- \`${trace.pageId}\` ${kind}: ${from ? `${from} → ` : ''}${to}${origin}\n`;
+      }
+      summary += `\n`;
+    }
+
+    const chains = this.session.effectChains || [];
+    if (chains.length > 0) {
+      summary += `## Effect Chains\n\n`;
+      for (const chain of chains) {
+        summary += `- ${chain.summary}\n`;
+      }
+      summary += `\n`;
+    }
+
     if (profiles.length > 0) {
       summary += `## Animation Profiles\n\n`;
       
       for (const profile of profiles) {
         summary += `### ${profile.name}\n\n`;
         summary += `**Trigger**: ${profile.trigger.event} on \`${profile.trigger.selector}\`\n\n`;
+        if (profile.pattern) {
+          summary += `**Pattern**: ${profile.pattern.pattern} (${profile.pattern.action})\n\n`;
+        }
         summary += `**Effect**: ${profile.effect.type}\n\n`;
         summary += `**Properties Changed**:\n`;
         
@@ -194,15 +1172,95 @@ export class TraceWriter {
           if (profile.effect.timing.delay) {
             summary += `- Delay: ${profile.effect.timing.delay}\n`;
           }
+          if (profile.effect.timing.iterations !== undefined) {
+            summary += `- Iterations: ${profile.effect.timing.iterations}\n`;
+          }
+          if (profile.effect.timing.fill) {
+            summary += `- Fill: ${profile.effect.timing.fill}\n`;
+          }
+        }
+
+        if (profile.effect.fittedEasing) {
+          const fit = profile.effect.fittedEasing;
+          summary += `\n**Fitted Easing** (${fit.kind}, RMSE ${fit.error}): \`${fit.easing}\`\n`;
+          if (fit.spring) {
+            summary += `- Spring: stiffness ${fit.spring.stiffness}, damping ${fit.spring.damping}, mass ${fit.spring.mass}\n`;
+          }
+        }
+
+        if (profile.effect.scroll) {
+          summary += `\n**Scroll**: ${profile.effect.scroll.timeline ? `${profile.effect.scroll.timeline}-timeline` : 'offset-driven'} on \`${profile.effect.scroll.container}\` (axis ${profile.effect.scroll.axis})\n`;
+          for (const frame of profile.effect.scroll.keyframes || []) {
+            summary += `- at ${frame.offset}px (${Math.round(frame.progress * 100)}%): ${this.formatValues(frame.values)}\n`;
+          }
+        }
+
+        if (profile.effect.route) {
+          const route = profile.effect.route;
+          summary += `\n**Route**: ${route.navigation} ${route.from ? `${route.from} → ` : ''}${route.to}\n`;
+        }
+
+        if (profile.effect.gesture) {
+          const gesture = profile.effect.gesture;
+          summary += `\n**Gesture**: ${gesture.type}, ${gesture.behavior} along ${gesture.axis}\n`;
+          summary += `- Follow ratio: ${gesture.followRatio}\n`;
+          summary += `- Release: ${gesture.releaseOffset}px at ${gesture.releaseVelocity}px/ms\n`;
+          summary += `- Settles at: ${gesture.finalOffset}px\n`;
+          if (gesture.overshoot) {
+            summary += `- Overshoot: ${gesture.overshoot}px\n`;
+          }
+          if (gesture.dropTarget) {
+            summary += `- Drop target: \`${gesture.dropTarget}\`\n`;
+          }
+        }
+
+        if (profile.effect.keyframes && profile.effect.keyframes.length > 0) {
+          summary += `\n**Keyframes**:\n`;
+          for (const frame of profile.effect.keyframes) {
+            summary += `- ${formatKeyframe(frame)}\n`;
+          }
         }
         
         summary += `\n---\n\n`;
       }
     }
 
+    const measured = profiles.filter(p => p.performance);
+    if (measured.length > 0) {
+      summary += `## Performance\n\n`;
+
+      for (const profile of measured) {
+        const perf = profile.performance!;
+        const janky = (perf.droppedFrames ?? 0) >= JANK_DROPPED_FRAMES ||
+          (perf.longTasks ?? 0) > 0 ||
+          (perf.layoutShift ?? 0) >= JANK_LAYOUT_SHIFT;
+        const icon = janky || perf.layoutProperties ? '⚠️' : '✅';
+
+        summary += `- ${icon} **${profile.name}**`;
+        if (perf.samples > 0) {
+          summary += `: ${perf.frames} frames, ${perf.droppedFrames} dropped (longest ${perf.longestFrame}ms), ` +
+            `${perf.longTasks} long tasks, layout shift ${perf.layoutShift}`;
+          if (perf.pageLayouts !== undefined) {
+            summary += `, page-wide ${perf.pageStyleRecalcs} style recalcs / ${perf.pageLayouts} layouts ` +
+              `(${perf.pageStyleRecalcTime! + perf.pageLayoutTime!}ms)`;
+          }
+        }
+        summary += `\n`;
+        if (perf.layoutProperties) {
+          summary += `  - Animates layout properties ${perf.layoutProperties.map(p => `\`${p}\``).join(', ')}; ` +
+            `\`transform\`/\`opacity\` would avoid layout on every frame\n`;
+        }
+      }
+      summary += `\n`;
+    }
+
     return summary;
   }
 
+  private formatValues(values: Record<string, string>): string {
+    return Object.entries(values).map(([prop, value]) => `${prop}: ${value}`).join('; ');
+  }
+
   /**
    * Save session and generate outputs
    */
@@ -213,6 +1271,12 @@ export class TraceWriter {
       // Extract profiles
       this.extractProfiles();
 
+      // Screenshots can fail (page closed mid-effect); keep only saved files
+      const pruned = this.session.traces.filter(trace => this.pruneMissingScreenshots(trace));
+      if (pruned.length > 0) {
+        await this.rewriteTracesFile();
+      }
+
       // Generate summary
       const summary = this.generateSummary();
 
@@ -253,8 +1317,12 @@ export class TraceWriter {
       session: {
         url: this.session.url,
         duration: this.session.endTime! - this.session.startTime,
+        browser: this.session.browser,
+        emulation: this.session.emulation,
+        variant: this.session.variant,
       },
       animationProfiles: this.session.profiles,
+      effectChains: this.session.effectChains || [],
       interactionTraces: this.session.traces
         .filter(t => t.type === 'interaction')
         .map(t => ({
@@ -262,10 +1330,25 @@ export class TraceWriter {
           event: t.event,
           before: t.before,
           after: t.after,
+          screenshots: t.screenshots,
+          video: t.video,
+          rendering: t.rendering,
         })),
+      // Images for multimodal models, paths relative to the session directory
+      attachments: this.session.traces.flatMap(t =>
+        Object.entries(t.screenshots || {}).map(([phase, file]) => ({
+          path: file,
+          mimeType: 'image/png',
+          phase,
+          timestamp: t.ts,
+          selector: t.event?.selector,
+        }))
+      ),
       metadata: {
         totalInteractions: this.session.traces.filter(t => t.type === 'interaction').length,
         totalMutations: this.session.traces.filter(t => t.type === 'mutation').length,
+        totalAnimations: this.session.traces.filter(t => t.type === 'animation').length,
+        totalCurves: this.session.traces.filter(t => t.type === 'curve').length,
         capturedAt: new Date(this.session.startTime).toISOString(),
       },
     };
@@ -277,6 +1360,44 @@ export class TraceWriter {
     );
   }
 
+  /**
+   * Drop screenshot references whose file was never written; returns
+   * whether the trace had any
+   */
+  private pruneMissingScreenshots(trace: TraceRecord): boolean {
+    if (!trace.screenshots) return false;
+
+    let pruned = false;
+    for (const phase of Object.keys(trace.screenshots) as Array<keyof ScreenshotSet>) {
+      if (!fs.existsSync(path.join(this.sessionDir, trace.screenshots[phase]!))) {
+        delete trace.screenshots[phase];
+        pruned = true;
+      }
+    }
+    if (Object.keys(trace.screenshots).length === 0) {
+      delete trace.screenshots;
+    }
+    return pruned;
+  }
+
+  /**
+   * Rewrite traces.jsonl with missing screenshots pruned, as appended
+   * lines were written before the shots finished
+   */
+  private async rewriteTracesFile(): Promise<void> {
+    const lines = (await fs.promises.readFile(this.tracesFile, 'utf-8'))
+      .split('\n')
+      .filter(line => line.trim());
+    const traces: TraceRecord[] = lines.map(line => JSON.parse(line));
+    traces.forEach(trace => this.pruneMissingScreenshots(trace));
+
+    await fs.promises.writeFile(
+      this.tracesFile,
+      traces.map(trace => JSON.stringify(trace) + '\n').join(''),
+      'utf-8'
+    );
+  }
+
   /**
    * Get output directory
    */
@@ -2,13 +2,77 @@
  * Type definitions for interaction traces
  */
 
+import { DOMDiff } from './dom-diff';
+
+export interface ScrollPosition {
+  container: string;
+  x: number;
+  y: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface KeyModifiers {
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+export interface GesturePoint {
+  t: number;
+  x: number;
+  y: number;
+}
+
+export interface PointerGesture {
+  type: 'drag' | 'swipe' | 'long-press';
+  pointerType: string;
+  path: GesturePoint[];
+  duration: number;
+  distance: number;
+  direction: 'left' | 'right' | 'up' | 'down' | 'none';
+  velocity: { x: number; y: number };
+  dropTarget?: string;
+}
+
+export interface GestureResponse {
+  selector: string;
+  offsets: GesturePoint[];
+  before: Record<string, string>;
+  after: Record<string, string>;
+}
+
 export interface InteractionEvent {
-  kind: 'click' | 'hover' | 'input' | 'submit' | 'focus' | 'blur' | 'scroll' | 'keypress';
+  kind: 'click' | 'hover' | 'input' | 'submit' | 'focus' | 'blur' | 'scroll' | 'keypress' | 'keydown' | 'keyup' | 'gesture';
   selector: string;
   x?: number;
   y?: number;
   value?: string;
   key?: string;
+  code?: string;
+  modifiers?: KeyModifiers;
+  scroll?: ScrollPosition;
+  gesture?: PointerGesture;
+}
+
+export interface DOMEffect {
+  selector: string;
+  change: 'added' | 'removed' | 'attribute';
+  attribute?: string;
+  from?: string;
+  to?: string;
+  visible?: boolean;
+}
+
+export interface NavigationEvent {
+  kind: 'load' | 'push' | 'replace' | 'pop' | 'hash' | 'open' | 'close';
+  from?: string;
+  to: string;
+  // For 'open': the page that opened this one (popups, target=_blank links)
+  opener?: string;
+  // For same-document navigations: views entering and leaving
+  effects?: DOMEffect[];
 }
 
 export interface DOMSnapshot {
@@ -17,25 +81,133 @@ export interface DOMSnapshot {
   attributes: Record<string, string>;
   classes: string[];
   text?: string;
+  // User-action and form pseudo-classes matching at snapshot time (':hover', ':checked', ...)
+  states?: string[];
 }
 
 export interface StyleSnapshot {
   selector: string;
+  // Keys are CSS properties, '::before.<property>' / '::after.<property>' for
+  // rendered pseudo-elements, and '--name' for custom properties the element uses
   computed: Record<string, string>;
 }
 
 export interface NetworkRequest {
+  // Unique per request within the session ('req-12')
+  id: string;
   url: string;
   method: string;
+  // 0 when the request failed or was aborted
   status: number;
+  statusText?: string;
+  // Milliseconds from the request being sent to it finishing or failing
   timing: number;
+  startedAt: number;
+  resourceType: string;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  requestBody?: NetworkBody;
+  responseBody?: NetworkBody;
+  // Error text of a failed or aborted request, e.g. 'net::ERR_ABORTED'
+  failure?: string;
+}
+
+export interface NetworkBody {
+  mimeType: string;
+  // Full size in bytes
+  size: number;
+  // JSON bodies only, cut to the capture's size limit
+  text?: string;
+  truncated?: boolean;
+}
+
+export interface AnimationKeyframe {
+  offset: number;
+  easing?: string;
+  composite?: string;
+  [property: string]: string | number | undefined;
+}
+
+export interface AnimationTiming {
+  duration: number;
+  delay: number;
+  endDelay: number;
+  iterations: number | 'infinite';
+  direction: string;
+  fill: string;
+  easing: string;
+}
+
+export interface AnimationTimelineInfo {
+  type: 'document' | 'scroll' | 'view';
+  source?: string;
+  axis?: string;
+}
+
+export interface CapturedAnimation {
+  kind: 'css-animation' | 'css-transition' | 'web-animation';
+  name: string;
+  selector: string;
+  pseudoElement?: string;
+  keyframes: AnimationKeyframe[];
+  timing: AnimationTiming;
+  timeline?: AnimationTimelineInfo;
+  playState: string;
+  detectedBy: 'animationstart' | 'transitionrun' | 'interaction';
+}
+
+export interface CurveSample {
+  t: number;
+  values: Record<string, string>;
+}
+
+export interface PropertyCurve {
+  selector: string;
+  pseudoElement?: string;
+  source: 'animation' | 'interaction' | 'style-mutation';
+  properties: string[];
+  samples: CurveSample[];
+}
+
+export interface FittedEasing {
+  kind: 'cubic-bezier' | 'steps' | 'spring';
+  easing: string;
+  duration: number;
+  delay: number;
+  error: number;
+  spring?: {
+    stiffness: number;
+    damping: number;
+    mass: number;
+  };
+}
+
+export interface ScrollStyleSample {
+  selector: string;
+  computed: Record<string, string>;
+}
+
+export interface ViewportIntersection {
+  selector: string;
+  ratio: number;
+  scroll: ScrollPosition;
+  before: { classes: string[]; computed: Record<string, string> };
+  after: { classes: string[]; computed: Record<string, string> };
+}
+
+export interface ScrollKeyframe {
+  offset: number;
+  progress: number;
+  values: Record<string, string>;
 }
 
 export interface TraceRecord {
   ts: number;
-  type: 'interaction' | 'mutation' | 'style' | 'network';
+  type: 'interaction' | 'mutation' | 'style' | 'network' | 'animation' | 'curve' | 'intersection' | 'navigation' | 'rules' | 'performance';
   sessionId: string;
   url: string;
+  // Tab the trace came from ('page-1' is the page the session started on)
+  pageId?: string;
   viewport: { width: number; height: number };
   
   // For interaction events
@@ -54,20 +226,123 @@ export interface TraceRecord {
     intent: string;
     summary: string;
     affectedElements: number;
-    changes: Array<{
-      selector: string;
-      type: 'add' | 'remove' | 'modify';
-      details: any;
-    }>;
+    changes: DOMDiff[];
+    // Diffs beyond the mutationMaxDiffs setting
+    omitted?: number;
+    // Component the changes look like (the intent is then e.g. 'modal-open')
+    pattern?: UIPatternMatch;
   };
   
   // For network
   network?: NetworkRequest[];
+
+  // For Web Animations API captures
+  animation?: CapturedAnimation;
+
+  // For frame-sampled property curves
+  curve?: PropertyCurve;
+
+  // For scroll interactions: styles of scroll-linked elements at this offset
+  scrollSamples?: ScrollStyleSample[];
+
+  // For elements entering the viewport
+  intersection?: ViewportIntersection;
+
+  // For keyboard interactions: UI changes the key caused elsewhere in the DOM
+  keyEffects?: DOMEffect[];
+
+  // For pointer gestures: displacement of the element the gesture moved
+  gestureResponse?: GestureResponse;
+
+  // For full loads, history/hash changes, and tabs opening or closing
+  navigation?: NavigationEvent;
+
+  // For profiled elements: the author's CSS rules and @keyframes
+  rules?: SourceRules;
+
+  // For interactions: clipped screenshots of the target, relative to the session directory
+  screenshots?: ScreenshotSet;
+
+  // With session video: where the trace happened in its page's recording
+  video?: VideoPosition;
+
+  // Rendering cost of the effect that followed an interaction
+  performance?: PerformanceSample;
+  // Set on interaction traces from their performance trace
+  rendering?: RenderingMetrics;
   
   // Optional user annotation
   annotation?: string;
 }
 
+export interface RenderingMetrics {
+  // Measured window after the trigger (ms)
+  duration: number;
+  frames: number;
+  // Frames missed at 60fps
+  droppedFrames: number;
+  longestFrame: number;
+  // Main-thread tasks over 50ms (Chromium only)
+  longTasks: number;
+  longTaskTime: number;
+  // Cumulative layout shift score (Chromium only)
+  layoutShift: number;
+  // Change in the page-wide style and layout counters of CDP
+  // Performance.getMetrics over the window (Chromium only): all work in the
+  // page, not only the effect's, read over an async round trip; times in ms
+  pageStyleRecalcs?: number;
+  pageStyleRecalcTime?: number;
+  pageLayouts?: number;
+  pageLayoutTime?: number;
+}
+
+export interface PerformanceSample extends RenderingMetrics {
+  // Interaction the window followed
+  trigger: { ts: number; selector: string; event: string };
+}
+
+export interface ProfilePerformance extends Partial<RenderingMetrics> {
+  // Measured windows merged into the worst value of each metric
+  samples: number;
+  // Layout-triggering properties the effect animates (transform/opacity are cheaper)
+  layoutProperties?: string[];
+}
+
+export interface VideoPosition {
+  // Recording of the trace's page, relative to the session directory
+  file: string;
+  // Milliseconds from the start of the recording
+  offset: number;
+}
+
+export interface ScreenshotSet {
+  // As soon as the engine hears of the interaction: the page's handlers have
+  // already run, so this is the first frame of the effect, not the state before it
+  start?: string;
+  // Halfway through the target's declared transition/animation
+  mid?: string;
+  after?: string;
+}
+
+export interface SourceRule {
+  // Selector as written, e.g. '.card:hover::after'
+  selector: string;
+  cssText: string;
+  // User-action pseudo-classes the rule requires (':hover', ':focus', ...)
+  states?: string[];
+  pseudoElement?: string;
+  // Condition of an enclosing @media rule
+  media?: string;
+  // Stylesheet URL, or 'inline' for <style> and constructed sheets
+  source: string;
+}
+
+export interface SourceRules {
+  selector: string;
+  rules: SourceRule[];
+  keyframes: Array<{ name: string; cssText: string }>;
+}
+
 export interface AnimationProfile {
   name: string;
   trigger: {
@@ -75,23 +350,135 @@ export interface AnimationProfile {
     selector: string;
   };
   effect: {
-    type: 'transition' | 'animation' | 'class-toggle' | 'dom-manipulation';
+    type: 'transition' | 'animation' | 'class-toggle' | 'dom-manipulation' | 'scripted' | 'scroll-linked' | 'gesture' | 'route-transition';
     target: string;
     properties: Record<string, { from: string; to: string }>;
     timing?: {
       duration: string;
       easing?: string;
       delay?: string;
+      iterations?: number | 'infinite';
+      direction?: string;
+      fill?: string;
+    };
+    keyframes?: AnimationKeyframe[];
+    fittedEasing?: FittedEasing;
+    scroll?: {
+      container: string;
+      axis: string;
+      timeline?: 'scroll' | 'view';
+      keyframes?: ScrollKeyframe[];
+    };
+    gesture?: {
+      type: PointerGesture['type'];
+      behavior: 'follow' | 'momentum' | 'snap' | 'snap-back';
+      axis: 'x' | 'y';
+      followRatio: number;
+      releaseVelocity: number;
+      releaseOffset: number;
+      finalOffset: number;
+      overshoot?: number;
+      dropTarget?: string;
+    };
+    route?: {
+      navigation: NavigationEvent['kind'];
+      from?: string;
+      to: string;
     };
   };
+  // CSS rules and @keyframes that apply to the target
+  sourceRules?: Omit<SourceRules, 'selector'>;
+  // Measured rendering cost and layout-triggering properties
+  performance?: ProfilePerformance;
+  // Component the effect belongs to (a dropdown opening, a tab being selected)
+  pattern?: UIPatternMatch;
   dependencies?: string[];
 }
 
+export interface DeviceEmulation {
+  // Playwright device preset the settings came from, if any
+  device?: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+}
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export interface CaptureVariant {
+  name: string;
+  // Engine to run the variant in; defaults to the base session's browser
+  browser?: BrowserName;
+  reducedMotion?: 'reduce' | 'no-preference';
+  colorScheme?: 'light' | 'dark';
+  // Viewport width in px; the height of the base emulation is kept
+  width?: number;
+}
+
+export type UIPattern =
+  | 'modal'
+  | 'dropdown'
+  | 'accordion'
+  | 'tabs'
+  | 'toast'
+  | 'tooltip'
+  | 'drawer'
+  | 'carousel'
+  | 'infinite-scroll';
+
+export interface UIPatternMatch {
+  pattern: UIPattern;
+  // 'open'/'close', 'expand'/'collapse', 'show'/'hide', 'select', 'slide' or 'append'
+  action: string;
+  // The component's element (the list, for infinite-scroll)
+  target: string;
+}
+
+export interface EffectStep {
+  // Milliseconds after the trigger
+  offset: number;
+  kind: 'request' | 'added' | 'removed' | 'moved' | 'modified' | 'animation' | 'navigation';
+  // Element selector, or method and URL for requests
+  target: string;
+  // e.g. 'GET /api/items → 200 (340ms)', 'fades in over 300ms'
+  description: string;
+  // For modified elements and animations
+  properties?: Record<string, { from: string; to: string }>;
+}
+
+// An interaction and the effects attributed to it, in order
+export interface EffectChain {
+  trigger: {
+    ts: number;
+    event: string;
+    selector: string;
+    pageId?: string;
+  };
+  steps: EffectStep[];
+  // Steps beyond the per-chain limit
+  omitted?: number;
+  pattern?: UIPatternMatch;
+  // e.g. 'click on button.load → GET /api/items → div.skeleton removed → ul.list fades in'
+  summary: string;
+}
+
 export interface CaptureSession {
   id: string;
   url: string;
   startTime: number;
   endTime?: number;
+  browser?: BrowserName;
+  emulation?: DeviceEmulation;
+  // Set on sub-sessions re-running a flow under another browser or emulated media
+  variant?: CaptureVariant;
+  parentSession?: string;
+  // Set on the base session once its variants have run
+  variants?: Array<{ name: string; sessionId: string; dir: string }>;
+  // HAR the network traffic was recorded to, or served from when offline
+  har?: { mode: 'record' | 'replay'; file: string };
   traces: TraceRecord[];
   profiles: AnimationProfile[];
+  effectChains?: EffectChain[];
 }
@@ -0,0 +1,280 @@
+/**
+ * UI Pattern Recognition
+ *
+ * Names the component behind a set of DOM changes from its signature:
+ * roles and ARIA state (role="dialog", aria-expanded, aria-selected),
+ * native elements (<dialog>, <details>), conventional class names
+ * (.dropdown, .toast), the properties it animates and, for infinite
+ * scroll, runs of siblings appended after a list's existing items along
+ * with a request or a scroll. Mutation intents say what changed; a
+ * pattern says what it is.
+ */
+
+import { DOMDiff } from "./dom-diff";
+import { UIPattern, UIPatternMatch } from "./types";
+
+export interface PatternSignals {
+  diffs: DOMDiff[];
+  /** Properties animated alongside the changes, by target */
+  animations?: Array<{
+    target: string;
+    properties: Record<string, { from: string; to: string }>;
+  }>;
+  /**
+   * A request or a scroll came with the changes, as with the next page of a
+   * feed; without it appended siblings are not read as infinite scroll
+   */
+  loadedMore?: boolean;
+}
+
+interface PatternRule {
+  pattern: UIPattern;
+  roles: string[];
+  tags: string[];
+  /** Attributes whose presence gives the component away */
+  attributes: string[];
+  /**
+   * Roles and attributes only count when the element is added or removed
+   * (live regions are also updated in place, e.g. result counts)
+   */
+  appearsOnly?: boolean;
+  /** Whole words of class names, ids and selectors */
+  words: RegExp;
+  /** Actions for appearing and disappearing, or the one thing it does */
+  actions: [string, string] | string;
+}
+
+// In order of precedence: a drawer is often also role="dialog"
+const RULES: PatternRule[] = [
+  {
+    pattern: "tooltip",
+    roles: ["tooltip"],
+    tags: [],
+    attributes: [],
+    words: /^tooltips?$/,
+    actions: ["show", "hide"],
+  },
+  {
+    pattern: "toast",
+    roles: ["status", "alert"],
+    tags: [],
+    attributes: ["aria-live"],
+    appearsOnly: true,
+    words: /^(?:toasts?|toaster|snackbar|notifications?|flash)$/,
+    actions: ["show", "hide"],
+  },
+  {
+    pattern: "drawer",
+    roles: [],
+    tags: [],
+    attributes: [],
+    words: /^(?:drawer|offcanvas|sidebar|sidenav|sheet)$/,
+    actions: ["open", "close"],
+  },
+  {
+    pattern: "modal",
+    roles: ["dialog", "alertdialog"],
+    tags: ["dialog"],
+    attributes: ["aria-modal"],
+    words: /^(?:modals?|dialog|lightbox|backdrop)$/,
+    actions: ["open", "close"],
+  },
+  {
+    pattern: "dropdown",
+    roles: ["menu", "listbox"],
+    tags: [],
+    attributes: ["aria-haspopup"],
+    words: /^(?:dropdown|menu|popover|popup|combobox)$/,
+    actions: ["open", "close"],
+  },
+  {
+    pattern: "tabs",
+    roles: ["tab", "tabpanel", "tablist"],
+    tags: [],
+    attributes: [],
+    words: /^(?:tabs?|tabpanel|tablist)$/,
+    actions: "select",
+  },
+  {
+    pattern: "accordion",
+    roles: ["region"],
+    tags: ["details", "summary"],
+    attributes: [],
+    words: /^(?:accordion|collapse|collapsible|expander|disclosure)$/,
+    actions: ["expand", "collapse"],
+  },
+  {
+    pattern: "carousel",
+    roles: [],
+    tags: [],
+    attributes: [],
+    words: /^(?:carousel|slider|slides?|swiper|glide|splide)$/,
+    actions: "slide",
+  },
+];
+
+// Siblings appended at once that read as the next page of a feed
+const MIN_APPENDED = 3;
+
+// Class names of a shown or hidden state
+const SHOWN_CLASS = /^(?:is-)?(?:open|opened|show|shown|active|visible|expanded|in)$/;
+const HIDDEN_CLASS = /^(?:is-)?(?:closed|hidden|collapsed)$/;
+
+/** How to rebuild each pattern, for prompts */
+export const PATTERN_GUIDANCE: Record<UIPattern, string> = {
+  modal:
+    'Use a <dialog> (or role="dialog" with aria-modal="true"), trap focus while it is open, close on Escape and backdrop click, and return focus to the trigger.',
+  dropdown:
+    "Toggle aria-expanded on the trigger, close on outside click and Escape, and move between items with the arrow keys.",
+  accordion:
+    "Toggle aria-expanded on the header button and hide the panel with `hidden` (or use <details>); animate the panel's height between 0 and its content height.",
+  tabs:
+    'Use role="tablist"/"tab"/"tabpanel", move aria-selected to the chosen tab and show only its panel; arrow keys switch tabs.',
+  toast:
+    'Append to a role="status" (aria-live) region, dismiss after a timeout, and stack several toasts without overlap.',
+  tooltip:
+    "Show on hover and focus after a short delay, link it with aria-describedby, and hide it on Escape and pointer leave.",
+  drawer:
+    "Slide it in from the edge with transform, dim the page behind it, trap focus and close on Escape or backdrop click.",
+  carousel:
+    "Move the track with transform: translateX, mark the current slide (aria-current or an active class) and keep the previous/next controls in sync.",
+  "infinite-scroll":
+    "Append the next page when a sentinel near the end of the list enters the viewport (IntersectionObserver), without firing duplicate requests.",
+};
+
+export class UIPatternRecognizer {
+  /**
+   * The component the changes belong to, if their signature matches one
+   */
+  recognize(signals: PatternSignals): UIPatternMatch | null {
+    const diffs = signals.diffs.filter((diff) => diff.path !== undefined);
+
+    for (const rule of RULES) {
+      const matching = diffs.filter((diff) => this.matchesRule(rule, diff));
+      if (matching.length === 0) continue;
+
+      // The element that appeared, went away or changed, rather than its toggle button
+      const target =
+        matching.find((diff) => diff.type === "add" || diff.type === "remove") ||
+        matching.find((diff) => !diff.changes?.attributes?.["aria-expanded"]) ||
+        matching[0];
+
+      if (typeof rule.actions === "string") {
+        return { pattern: rule.pattern, action: rule.actions, target: target.path };
+      }
+
+      const shown = [target, ...matching]
+        .map((diff) => this.isShown(diff, signals.animations || []))
+        .find((value) => value !== null);
+      const [open, close] = rule.actions;
+      return {
+        pattern: rule.pattern,
+        action: shown === undefined ? "toggle" : shown ? open : close,
+        target: target.path,
+      };
+    }
+
+    return signals.loadedMore ? this.recognizeAppend(diffs) : null;
+  }
+
+  private matchesRule(rule: PatternRule, diff: DOMDiff): boolean {
+    const node = diff.node;
+    if (node) {
+      if (rule.tags.includes(node.tag)) return true;
+
+      const appeared = diff.type === "add" || diff.type === "remove";
+      if (appeared || !rule.appearsOnly) {
+        if (node.attributes.role && rule.roles.includes(node.attributes.role)) return true;
+        if (rule.attributes.some((name) => name in node.attributes)) return true;
+      }
+    }
+    return this.getWords(diff).some((word) => rule.words.test(word));
+  }
+
+  /**
+   * Words naming the element: classes, id, ARIA role description, and the
+   * last compound of its selector (older diffs have no node)
+   */
+  private getWords(diff: DOMDiff): string[] {
+    const node = diff.node;
+    const names = [
+      diff.path.split(" ").pop() || "",
+      ...(node?.classes || []),
+      node?.attributes.id || "",
+      node?.attributes["aria-roledescription"] || "",
+    ];
+    return names
+      .join(" ")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * Whether the change shows the element (true), hides it (false) or
+   * cannot tell (null)
+   */
+  private isShown(
+    diff: DOMDiff,
+    animations: NonNullable<PatternSignals["animations"]>,
+  ): boolean | null {
+    if (diff.type === "add") return true;
+    if (diff.type === "remove") return false;
+
+    const attributes = diff.changes?.attributes || {};
+    if (attributes.open) return attributes.open.to !== "";
+    if (attributes.hidden) return attributes.hidden.to === "";
+    if (attributes["aria-expanded"]) return attributes["aria-expanded"].to === "true";
+    if (attributes["aria-hidden"]) return attributes["aria-hidden"].to !== "true";
+    if (attributes["data-state"]) {
+      return /^(?:open|active|visible)$/.test(attributes["data-state"].to);
+    }
+
+    const classes = diff.changes?.classes;
+    if (classes) {
+      if (classes.added.some((cls) => SHOWN_CLASS.test(cls))) return true;
+      if (classes.removed.some((cls) => SHOWN_CLASS.test(cls))) return false;
+      if (classes.added.some((cls) => HIDDEN_CLASS.test(cls))) return false;
+      if (classes.removed.some((cls) => HIDDEN_CLASS.test(cls))) return true;
+    }
+
+    const fade = animations.find((animation) => animation.target.startsWith(diff.path))
+      ?.properties.opacity;
+    if (fade) return parseFloat(fade.to) > parseFloat(fade.from);
+
+    return null;
+  }
+
+  /**
+   * Infinite scroll: a run of same-tag siblings appended to one parent,
+   * right after the items it already had
+   */
+  private recognizeAppend(diffs: DOMDiff[]): UIPatternMatch | null {
+    // Parent and tag -> positions of the added siblings among their tag
+    const groups = new Map<string, number[]>();
+    for (const diff of diffs) {
+      if (diff.type !== "add") continue;
+
+      // Only structural paths (li:nth-of-type(21)) say where the element went
+      const position = /:nth-(?:of-type|child)\((\d+)\)$/.exec(diff.path);
+      if (!position) continue;
+
+      const parent = diff.path.slice(0, diff.path.lastIndexOf(" ")).replace(/\s*>$/, "");
+      const key = `${parent}|${diff.node?.tag || ""}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(Number(position[1]));
+    }
+
+    for (const [key, positions] of groups) {
+      const parent = key.slice(0, key.lastIndexOf("|"));
+      positions.sort((a, b) => a - b);
+
+      // One contiguous run that does not start the list (a first render does)
+      const contiguous = positions.every((at, i) => i === 0 || at === positions[i - 1] + 1);
+      if (positions.length >= MIN_APPENDED && contiguous && positions[0] > 1 && parent) {
+        return { pattern: "infinite-scroll", action: "append", target: parent };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Capture Variants
+ *
+ * Re-runs a flow in other browser engines or under emulated media — reduced
+ * motion, color scheme and viewport widths — and compares each run with a
+ * base session. Every run
+ * is stored as a sub-session linked to the base, so a single report shows
+ * which animations change or disappear per variant.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { BrowserName, CaptureVariant } from "./types";
+import { CaptureEngine, CaptureOptions } from "./capture-engine";
+import { Flow, FlowRunner } from "./flow-runner";
+import { loadSession } from "./replay";
+import { compareProfiles, profileKey, ProfileDiff } from "./session-diff";
+
+export const BROWSERS: BrowserName[] = ["chromium", "firefox", "webkit"];
+
+export interface VariantResult {
+  variant: CaptureVariant;
+  sessionId?: string;
+  sessionDir?: string;
+  profiles: ProfileDiff[];
+  /** Base profiles captured identically under this variant */
+  unchanged: string[];
+  error?: string;
+}
+
+export interface VariantReport {
+  baseSession: string;
+  url: string;
+  variants: VariantResult[];
+}
+
+/**
+ * Parse a comma-separated variant list, e.g. "firefox,reduced-motion,dark,375"
+ */
+export function parseVariants(list: string): CaptureVariant[] {
+  const variants: CaptureVariant[] = [];
+
+  for (const token of list.split(",").map((part) => part.trim().toLowerCase())) {
+    if (!token) continue;
+
+    if (BROWSERS.includes(token as BrowserName)) {
+      variants.push({ name: token, browser: token as BrowserName });
+    } else if (token === "reduced-motion") {
+      variants.push({ name: token, reducedMotion: "reduce" });
+    } else if (token === "dark" || token === "light") {
+      variants.push({ name: token, colorScheme: token });
+    } else if (/^\d+$/.test(token) && parseInt(token) > 0) {
+      variants.push({ name: `${token}px`, width: parseInt(token) });
+    } else {
+      throw new Error(
+        `Unknown variant "${token}" ` +
+          `(expected ${BROWSERS.join(", ")}, reduced-motion, dark, light or a width in px)`,
+      );
+    }
+  }
+
+  if (variants.length === 0) {
+    throw new Error("No variants given");
+  }
+
+  return variants;
+}
+
+export class VariantRunner {
+  /**
+   * Run the flow once per variant and compare each capture with the base session
+   */
+  async run(
+    baseDir: string,
+    flow: Flow,
+    variants: CaptureVariant[],
+    options: CaptureOptions,
+  ): Promise<VariantReport> {
+    const base = loadSession(baseDir);
+    const results: VariantResult[] = [];
+
+    for (const variant of variants) {
+      console.log("");
+      console.log(`🌗 Running variant ${variant.name}...`);
+
+      const engine = new CaptureEngine();
+      await engine.start({
+        ...options,
+        // Variants are served the base run's network so only the variant differs
+        harRecord: undefined,
+        harReplay: options.harReplay ?? options.harRecord,
+        url: base.url,
+        outputDir: path.join(baseDir, "variants"),
+        scripted: true,
+        variant,
+        parentSession: base.id,
+      });
+
+      // A failing step is reported per variant; the remaining variants still run
+      let flowError: string | undefined;
+      try {
+        await new FlowRunner(engine.getPage()!).run(flow);
+      } catch (error: any) {
+        flowError = error.message;
+      }
+
+      const captured = loadSession(await engine.stop());
+      const profiles = compareProfiles(base.profiles, captured.profiles);
+      const differing = new Set(profiles.map((diff) => diff.key));
+
+      const unchanged = new Set<string>();
+      for (const profile of base.profiles) {
+        if (!differing.has(profileKey(profile))) {
+          unchanged.add(profile.name);
+        }
+      }
+
+      results.push({
+        variant,
+        sessionId: captured.id,
+        sessionDir: captured.dir,
+        profiles,
+        unchanged: [...unchanged],
+        error: flowError,
+      });
+    }
+
+    const report: VariantReport = { baseSession: base.id, url: base.url, variants: results };
+
+    await fs.promises.writeFile(
+      path.join(baseDir, "variant-report.json"),
+      JSON.stringify(report, null, 2),
+      "utf-8",
+    );
+    await this.linkVariants(baseDir, results);
+
+    return report;
+  }
+
+  /**
+   * Record the sub-sessions in the base session.json
+   */
+  private async linkVariants(baseDir: string, results: VariantResult[]): Promise<void> {
+    const sessionFile = path.join(baseDir, "session.json");
+    const session = JSON.parse(await fs.promises.readFile(sessionFile, "utf-8"));
+
+    session.variants = results
+      .filter((result) => result.sessionId)
+      .map((result) => ({
+        name: result.variant.name,
+        sessionId: result.sessionId!,
+        dir: path.relative(baseDir, result.sessionDir!),
+      }));
+
+    await fs.promises.writeFile(sessionFile, JSON.stringify(session, null, 2), "utf-8");
+  }
+}
+
+/**
+ * Render a variant comparison report for the terminal
+ */
+export function formatVariantReport(report: VariantReport): string {
+  const lines: string[] = [];
+
+  lines.push(`🌗 Variants of ${report.baseSession}`);
+  lines.push(`   URL: ${report.url}`);
+
+  for (const result of report.variants) {
+    const changed = result.profiles.filter((diff) => diff.status === "changed").length;
+    const missing = result.profiles.filter((diff) => diff.status === "missing").length;
+    const added = result.profiles.filter((diff) => diff.status === "added").length;
+
+    lines.push("");
+    lines.push(
+      `▸ ${result.variant.name} (${result.sessionId}): ` +
+        `${changed} changed, ${missing} missing, ${added} added, ${result.unchanged.length} unchanged`,
+    );
+
+    if (result.error) {
+      lines.push(`   ❌ Flow error: ${result.error}`);
+    }
+
+    for (const diff of result.profiles) {
+      const icon = diff.status === "missing" ? "❌" : diff.status === "added" ? "➕" : "⚠️ ";
+      lines.push(`   ${icon} ${diff.status}: ${diff.name}`);
+      for (const change of diff.changes) {
+        lines.push(`      - ${change}`);
+      }
+    }
+
+    // Under reduced motion, an animation that plays exactly as before ignores the preference
+    if (result.variant.reducedMotion === "reduce" && result.unchanged.length > 0) {
+      lines.push(`   ⚠️  Still animating with prefers-reduced-motion: reduce:`);
+      for (const name of result.unchanged) {
+        lines.push(`      - ${name}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,143 @@
+/**
+ * Video Clips
+ *
+ * Cuts a frame sequence around a trace out of a session video, so a
+ * captured interaction can be reviewed next to the profile extracted from
+ * it. Frames are grabbed by seeking the recording in Playwright's own
+ * Chromium; no external video tooling is needed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { chromium } from "playwright";
+import { loadSession } from "./replay";
+
+export interface ClipOptions {
+  /** Time before the trace to start at (ms) */
+  before?: number;
+  /** Time after the trace to end at (ms) */
+  after?: number;
+  /** Frames per second of the sequence */
+  fps?: number;
+  /** Output directory (default: <session>/clips/trace-<index>) */
+  outputDir?: string;
+}
+
+export interface ClipFrame {
+  file: string;
+  /** Offset into the video (ms) */
+  offset: number;
+  /** Time relative to the trace (ms, negative before it) */
+  relative: number;
+}
+
+export interface ClipResult {
+  sessionId: string;
+  traceIndex: number;
+  traceType: string;
+  video: string;
+  dir: string;
+  frames: ClipFrame[];
+}
+
+const DEFAULT_BEFORE = 500;
+const DEFAULT_AFTER = 1500;
+const DEFAULT_FPS = 10;
+
+export class VideoClipper {
+  /**
+   * Save frames around a trace (0-based index into traces.jsonl)
+   */
+  async clip(sessionDir: string, traceIndex: number, options: ClipOptions = {}): Promise<ClipResult> {
+    const session = loadSession(sessionDir);
+    const trace = session.traces[traceIndex];
+
+    if (!trace) {
+      throw new Error(
+        `Trace ${traceIndex} not found (session has ${session.traces.length} traces, indexed from 0)`,
+      );
+    }
+    if (!trace.video) {
+      throw new Error(`Trace ${traceIndex} has no video position (record with --video)`);
+    }
+
+    const videoFile = path.resolve(sessionDir, trace.video.file);
+    if (!fs.existsSync(videoFile)) {
+      throw new Error(`Video not found: ${videoFile}`);
+    }
+
+    const before = options.before ?? DEFAULT_BEFORE;
+    const after = options.after ?? DEFAULT_AFTER;
+    const fps = options.fps ?? DEFAULT_FPS;
+    const step = 1000 / fps;
+
+    const outputDir = options.outputDir || path.join(sessionDir, "clips", `trace-${traceIndex}`);
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const start = Math.max(0, trace.video.offset - before);
+    const end = trace.video.offset + after;
+
+    const browser = await chromium.launch({ headless: true });
+    const frames: ClipFrame[] = [];
+
+    try {
+      const page = await browser.newPage();
+      // Opening the file directly keeps it seekable (a served file needs range requests)
+      await page.goto(pathToFileURL(videoFile).href);
+
+      const video = page.locator("video");
+      const duration = await video.evaluate(async (element: HTMLVideoElement) => {
+        element.pause();
+        element.controls = false;
+        if (element.readyState < 1) {
+          await new Promise((resolve) => element.addEventListener("loadedmetadata", resolve, { once: true }));
+        }
+        // Streamed recordings report an infinite duration until seeked past the end
+        if (element.duration === Infinity) {
+          element.currentTime = Number.MAX_SAFE_INTEGER;
+          await new Promise((resolve) => element.addEventListener("seeked", resolve, { once: true }));
+        }
+        return element.duration * 1000;
+      });
+
+      for (let offset = start; offset <= Math.min(end, duration); offset += step) {
+        await video.evaluate(async (element: HTMLVideoElement, seconds: number) => {
+          element.currentTime = seconds;
+          await new Promise((resolve) => element.addEventListener("seeked", resolve, { once: true }));
+        }, offset / 1000);
+
+        const file = `frame-${String(frames.length).padStart(3, "0")}.png`;
+        await video.screenshot({ path: path.join(outputDir, file) });
+        frames.push({
+          file,
+          offset: Math.round(offset),
+          relative: Math.round(offset - trace.video.offset),
+        });
+      }
+    } finally {
+      await browser.close();
+    }
+
+    if (frames.length === 0) {
+      throw new Error(`Trace ${traceIndex} is past the end of ${trace.video.file}`);
+    }
+
+    const result: ClipResult = {
+      sessionId: session.id,
+      traceIndex,
+      traceType: trace.type,
+      video: trace.video.file,
+      dir: outputDir,
+      frames,
+    };
+
+    await fs.promises.writeFile(
+      path.join(outputDir, "clip.json"),
+      JSON.stringify(result, null, 2),
+      "utf-8",
+    );
+
+    return result;
+  }
+}
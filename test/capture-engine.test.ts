@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { chromium } from "playwright";
+import { CaptureEngine } from "../src/capture-engine";
+import { TraceRecord } from "../src/types";
+
+type Binding = (source: { page: FakePage }, payload?: any) => unknown;
+
+/**
+ * Just enough of a Playwright page for CaptureEngine.start; navigating
+ * fires what a real load does, while the page script is already injected
+ */
+class FakePage extends EventEmitter {
+  private currentUrl = "about:blank";
+
+  constructor(private bindings: Map<string, Binding>) {
+    super();
+  }
+
+  url(): string {
+    return this.currentUrl;
+  }
+
+  video(): null {
+    return null;
+  }
+
+  async opener(): Promise<null> {
+    return null;
+  }
+
+  async goto(url: string): Promise<void> {
+    this.currentUrl = url;
+    this.emit("domcontentloaded");
+    // A client-side redirect the page script reports while the page settles
+    this.currentUrl = `${url}#/home`;
+    this.bindings.get("__captureCallback")!(
+      { page: this },
+      { ts: Date.now(), type: "navigation", navigation: { kind: "hash", from: url, to: this.currentUrl } },
+    );
+  }
+
+  async waitForTimeout(): Promise<void> {}
+
+  async evaluate(): Promise<boolean> {
+    return true;
+  }
+
+  viewportSize(): { width: number; height: number } {
+    return { width: 1280, height: 720 };
+  }
+}
+
+function fakeBrowser() {
+  const bindings = new Map<string, Binding>();
+  const context = new (class extends EventEmitter {
+    async exposeBinding(name: string, binding: Binding): Promise<void> {
+      bindings.set(name, binding);
+    }
+    async addInitScript(): Promise<void> {}
+    async newPage(): Promise<FakePage> {
+      const page = new FakePage(bindings);
+      this.emit("page", page);
+      return page;
+    }
+  })();
+  return { newContext: async () => context };
+}
+
+describe("CaptureEngine.start", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "capture-engine-"));
+    mock.method(chromium, "launch", async () => fakeBrowser());
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records the navigations of the first document", async () => {
+    await new CaptureEngine().start({
+      url: "https://example.com/",
+      outputDir: dir,
+      headless: true,
+      screenshots: false,
+      performance: false,
+    });
+    // The opener resolves after the page is created
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const [sessionDir] = fs.readdirSync(dir);
+    const traces: TraceRecord[] = fs
+      .readFileSync(path.join(dir, sessionDir, "traces.jsonl"), "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+    const navigations = traces
+      .filter((trace) => trace.type === "navigation")
+      .map((trace) => trace.navigation!.kind)
+      .sort();
+
+    assert.deepEqual(navigations, ["hash", "load", "open"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_SETTINGS,
+  getPageSettings,
+  REDACTED,
+  resolveSettings,
+  validateConfig,
+} from "../src/config";
+import { createRedactors } from "../src/redaction";
+
+describe("validateConfig", () => {
+  it("accepts settings and overrides", () => {
+    const config = { settleDelay: 200, overrides: [{ match: "*/checkout*", settleDelay: 500 }] };
+    assert.equal(validateConfig(config), config);
+  });
+
+  it("rejects anything but an object", () => {
+    for (const data of [null, 3, "config", []]) {
+      assert.throws(() => validateConfig(data), /expected an object/);
+    }
+  });
+
+  it("rejects unknown settings and wrong types", () => {
+    assert.throws(
+      () => validateConfig({ settleDelays: 1 }),
+      /unknown setting "settleDelays" in config/,
+    );
+    assert.throws(
+      () => validateConfig({ settleDelay: -1 }),
+      /"settleDelay" in config must be a non-negative number/,
+    );
+    assert.throws(() => validateConfig({ redactSelectors: [1] }), /must be an array of strings/);
+    assert.throws(() => validateConfig({ redactPatterns: ["("] }), /bad pattern in "redactPatterns"/);
+  });
+
+  it("checks every override", () => {
+    assert.throws(() => validateConfig({ overrides: {} }), /"overrides" must be an array/);
+    assert.throws(
+      () => validateConfig({ overrides: [{ settleDelay: 1 }] }),
+      /override 1 needs a "match"/,
+    );
+    assert.throws(
+      () => validateConfig({ overrides: [{ match: "*" }, { match: "*", hoverThrottle: "fast" }] }),
+      /"hoverThrottle" in override 2/,
+    );
+  });
+});
+
+describe("resolveSettings", () => {
+  const config = {
+    settleDelay: 200,
+    overrides: [
+      { match: "https://example.com/*", settleDelay: 300 },
+      { match: "*/checkout", settleDelay: 500, redactAttributes: ["data-user"] },
+    ],
+  };
+
+  it("applies the config, then matching overrides in order", () => {
+    assert.equal(resolveSettings(config, "https://other.com/").settleDelay, 200);
+    assert.equal(resolveSettings(config, "https://example.com/").settleDelay, 300);
+
+    const checkout = resolveSettings(config, "https://example.com/checkout");
+    assert.equal(checkout.settleDelay, 500);
+    assert.deepEqual(checkout.redactAttributes, ["data-user"]);
+    assert.deepEqual(checkout.meaningfulStyles, DEFAULT_SETTINGS.meaningfulStyles);
+  });
+
+  it("gives the page the same overrides as regular expressions", () => {
+    const { settings, overrides } = getPageSettings(config);
+    assert.equal(settings.settleDelay, 200);
+
+    const url = "https://example.com/checkout";
+    const matching = overrides.filter((override) => new RegExp(override.pattern).test(url));
+    assert.deepEqual(
+      matching.map((override) => override.settings.settleDelay),
+      [300, 500],
+    );
+    assert.ok(!new RegExp(overrides[1].pattern).test("https://example.com/checkout?step=2"));
+  });
+
+  it("redacts with the settings of each page URL", () => {
+    const redactorFor = createRedactors(config);
+    const attributes = { "data-user": "ada" };
+
+    assert.deepEqual(redactorFor("https://example.com/").maskAttributes(attributes), attributes);
+    assert.deepEqual(redactorFor("https://example.com/checkout").maskAttributes(attributes), {
+      "data-user": REDACTED,
+    });
+  });
+});
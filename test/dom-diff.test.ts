@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { REDACTED } from "../src/config";
+import { DOMDiffCompressor } from "../src/dom-diff";
+import { Redactor } from "../src/redaction";
+
+// The engines run in the page, where Element and document are globals
+const { window } = new JSDOM("<!DOCTYPE html><body></body>");
+Object.assign(globalThis, { Element: window.Element, document: window.document });
+const { document } = window;
+
+function describeElement(element: Element): string {
+  return element.id ? `#${element.id}` : element.tagName.toLowerCase();
+}
+
+/** Mutation records of the changes `mutate` makes to a fresh #root */
+function record(html: string, mutate: (root: HTMLElement) => void): MutationRecord[] {
+  document.body.innerHTML = `<div id="root">${html}</div>`;
+  const root = document.getElementById("root")!;
+  const observer = new window.MutationObserver(() => {});
+  observer.observe(root, {
+    subtree: true,
+    childList: true,
+    attributes: true,
+    attributeOldValue: true,
+    characterData: true,
+    characterDataOldValue: true,
+  });
+  mutate(root);
+  const records = observer.takeRecords();
+  observer.disconnect();
+  return records;
+}
+
+function list(items: number): string {
+  return `<ul>${Array.from({ length: items }, (_, i) => `<li>${i}</li>`).join("")}</ul>`;
+}
+
+describe("DOMDiffCompressor", () => {
+  it("serializes subtrees within the depth and node limits", () => {
+    document.body.innerHTML = `<section><div><p><b><i>deep</i></b></p></div>${list(5)}</section>`;
+    const section = document.querySelector("section")!;
+
+    const shallow = new DOMDiffCompressor({ subtreeMaxDepth: 2 }).serializeTree(section);
+    const paragraph = shallow.children![0].children![0];
+    assert.equal(paragraph.tag, "p");
+    assert.equal(paragraph.children, undefined);
+    assert.equal(paragraph.truncated, 1);
+
+    // The root and three descendants: div > p > b, the list is left out
+    const small = new DOMDiffCompressor({ subtreeMaxNodes: 4 }).serializeTree(section);
+    assert.deepEqual(small.children!.map((child) => child.tag), ["div"]);
+    assert.equal(small.truncated, 1);
+    assert.equal(small.children![0].children![0].children![0].truncated, 1);
+  });
+
+  it("reports adds, removes, moves and modifications", () => {
+    const mutations = record(
+      '<p id="gone">old</p><span id="moved"></span><div id="target" class="a"></div><div id="box">x</div>',
+      (root) => {
+        root.querySelector("#gone")!.remove();
+        root.querySelector("#target")!.append(root.querySelector("#moved")!);
+        root.querySelector("#target")!.className = "a open";
+        root.querySelector("#box")!.textContent = "y";
+        const added = document.createElement("aside");
+        added.id = "added";
+        root.append(added);
+      },
+    );
+
+    const { diffs, omitted } = new DOMDiffCompressor().diffMutations(mutations, describeElement);
+    const byPath = Object.fromEntries(diffs.map((diff) => [diff.path, diff]));
+
+    assert.equal(omitted, 0);
+    assert.equal(byPath["#gone"].type, "remove");
+    assert.equal(byPath["#moved"].type, "move");
+    assert.equal(byPath["#moved"].from, "#root");
+    assert.equal(byPath["#added"].type, "add");
+    assert.deepEqual(byPath["#target"].changes, { classes: { added: ["open"], removed: [] } });
+    assert.deepEqual(byPath["#box"].changes, { text: { from: "x", to: "y" } });
+  });
+
+  it("drops nodes added and removed within the batch", () => {
+    const mutations = record("", (root) => {
+      const flash = document.createElement("div");
+      root.append(flash);
+      flash.remove();
+    });
+
+    assert.deepEqual(new DOMDiffCompressor().diffMutations(mutations, describeElement).diffs, []);
+  });
+
+  it("reads boolean attributes as their name when present", () => {
+    const mutations = record('<details id="panel"></details>', (root) => {
+      root.querySelector("#panel")!.setAttribute("open", "");
+    });
+
+    const [diff] = new DOMDiffCompressor().diffMutations(mutations, describeElement).diffs;
+    assert.deepEqual(diff.changes?.attributes, { open: { from: "", to: "open" } });
+  });
+
+  it("caps the diffs per batch and counts the rest", () => {
+    const mutations = record("", (root) => {
+      for (let i = 0; i < 5; i++) {
+        const item = document.createElement("p");
+        item.id = `item-${i}`;
+        root.append(item);
+      }
+    });
+
+    const result = new DOMDiffCompressor({ maxDiffs: 2 }).diffMutations(mutations, describeElement);
+    assert.deepEqual(result.diffs.map((diff) => diff.path), ["#item-0", "#item-1"]);
+    assert.equal(result.omitted, 3);
+  });
+
+  it("masks sensitive fields in serialized subtrees", () => {
+    const mutations = record("", (root) => {
+      root.innerHTML = '<form><input type="password" value="hunter2"><p>ada@example.com</p></form>';
+    });
+
+    const compressor = new DOMDiffCompressor({}, new Redactor());
+    const [diff] = compressor.diffMutations(mutations, describeElement).diffs;
+    const [input, paragraph] = diff.node!.children!;
+    assert.equal(input.attributes.value, REDACTED);
+    assert.equal(paragraph.text, REDACTED);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EasingFitter } from "../src/easing-fit";
+import { PropertyCurve } from "../src/types";
+
+const FRAME = 1000 / 60;
+
+/** Samples an opacity curve 0 → 1 every frame, resting before and after */
+function sampleCurve(
+  easing: (t: number) => number,
+  { delay = 0, duration = 300, tail = 100 } = {},
+): PropertyCurve {
+  const samples = [];
+  for (let t = 0; t <= delay + duration + tail; t += FRAME) {
+    const progress = Math.min(1, Math.max(0, (t - delay) / duration));
+    samples.push({ t, values: { opacity: String(easing(progress)) } });
+  }
+  return { selector: ".box", source: "animation", properties: ["opacity"], samples };
+}
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number) {
+  const at = (p1: number, p2: number, s: number) =>
+    3 * p1 * s * (1 - s) ** 2 + 3 * p2 * s * s * (1 - s) + s ** 3;
+  return (x: number) => {
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 40; i++) {
+      const mid = (lo + hi) / 2;
+      if (at(x1, x2, mid) < x) lo = mid;
+      else hi = mid;
+    }
+    return at(y1, y2, (lo + hi) / 2);
+  };
+}
+
+describe("EasingFitter", () => {
+  const fitter = new EasingFitter();
+
+  it("names a keyword easing and recovers its timing", () => {
+    const fitted = fitter.fit(sampleCurve(cubicBezier(0, 0, 0.58, 1), { delay: 100 }));
+
+    assert.ok(fitted);
+    assert.equal(fitted.kind, "cubic-bezier");
+    assert.equal(fitted.easing, "ease-out");
+    assert.ok(Math.abs(fitted.duration - 300) <= FRAME * 2, `duration ${fitted.duration}`);
+    assert.ok(Math.abs(fitted.delay - 100) <= FRAME * 2, `delay ${fitted.delay}`);
+  });
+
+  it("fits a custom cubic-bezier", () => {
+    const fitted = fitter.fit(sampleCurve(cubicBezier(0.7, 0, 0.3, 1), { duration: 500 }));
+
+    assert.ok(fitted);
+    assert.equal(fitted.kind, "cubic-bezier");
+    assert.match(fitted.easing, /^cubic-bezier\(/);
+    assert.ok(fitted.error < 0.02, `error ${fitted.error}`);
+  });
+
+  it("detects steps()", () => {
+    const stepped = (t: number) => Math.min(1, Math.floor(t * 4) / 4);
+    const fitted = fitter.fit(sampleCurve(stepped, { duration: 400 }));
+
+    assert.ok(fitted);
+    assert.equal(fitted.kind, "steps");
+    assert.equal(fitted.easing, "steps(4)");
+  });
+
+  it("fits a spring to oscillating motion", () => {
+    const spring = (t: number) => 1 - Math.exp(-6 * t) * Math.cos(4 * Math.PI * t);
+    const fitted = fitter.fit(sampleCurve(spring, { duration: 800, tail: 0 }));
+
+    assert.ok(fitted);
+    assert.equal(fitted.kind, "spring");
+    assert.ok(fitted.spring);
+    assert.match(fitted.easing, /^linear\(/);
+  });
+
+  it("returns null for a curve that never moves", () => {
+    assert.equal(fitter.fit(sampleCurve(() => 0)), null);
+  });
+});
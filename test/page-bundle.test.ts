@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ts from "typescript";
+import * as vm from "vm";
+import { REDACTED } from "../src/config";
+import { DOMDiffCompressor } from "../src/dom-diff";
+import { bundleClasses } from "../src/page-bundle";
+import { Redactor } from "../src/redaction";
+import { StableSelectorEngine } from "../src/selectors";
+
+const BUNDLE_FILE = "/page-bundle.js";
+
+/**
+ * Names the bundle uses that neither it nor the page (ES2020 + DOM, no
+ * Node globals) declares
+ */
+function findUnresolvedNames(source: string): string[] {
+  const options: ts.CompilerOptions = {
+    allowJs: true,
+    checkJs: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2020,
+    lib: ["lib.es2020.d.ts", "lib.dom.d.ts"],
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    fileName === BUNDLE_FILE
+      ? ts.createSourceFile(fileName, source, languageVersion)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  host.fileExists = (fileName) => fileName === BUNDLE_FILE || ts.sys.fileExists(fileName);
+
+  const program = ts.createProgram([BUNDLE_FILE], options, host);
+  return program
+    .getSemanticDiagnostics(program.getSourceFile(BUNDLE_FILE))
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"))
+    .filter((message) => message.startsWith("Cannot find name"));
+}
+
+// A module constant the class below cannot see once injected
+const PAGE_HIDDEN = "hidden";
+
+class UsesModuleConstant {
+  label(): string {
+    return PAGE_HIDDEN;
+  }
+}
+
+describe("bundleClasses", () => {
+  const bundle = bundleClasses(StableSelectorEngine, DOMDiffCompressor, Redactor);
+
+  it("bundles the injected classes without free identifiers", () => {
+    assert.deepEqual(findUnresolvedNames(bundle), []);
+  });
+
+  it("runs without module globals", () => {
+    const context = vm.createContext({});
+    vm.runInContext(`${bundle}\nthis.redactor = new Redactor();`, context);
+
+    assert.equal(context.redactor.maskText("mail ada@example.com"), `mail ${REDACTED}`);
+    assert.equal(vm.runInContext("typeof StableSelectorEngine", context), "function");
+    assert.equal(vm.runInContext("typeof DOMDiffCompressor", context), "function");
+  });
+
+  it("flags a bare module constant", () => {
+    assert.deepEqual(findUnresolvedNames(bundleClasses(UsesModuleConstant)), [
+      "Cannot find name 'PAGE_HIDDEN'.",
+    ]);
+  });
+});
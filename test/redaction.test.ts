@@ -0,0 +1,312 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { REDACTED } from "../src/config";
+import { Har, HarEntry } from "../src/har";
+import { Redactor, redactHar, redactSession } from "../src/redaction";
+import { interactionsToFlow } from "../src/replay";
+import { TraceRecord } from "../src/types";
+
+function interaction(ts: number, selector: string, value: string): TraceRecord {
+  return {
+    ts,
+    type: "interaction",
+    sessionId: "session_test",
+    url: "https://example.com/login",
+    viewport: { width: 1280, height: 720 },
+    event: { kind: "input", selector, value },
+  };
+}
+
+function harEntry(): HarEntry {
+  return {
+    startedDateTime: new Date(0).toISOString(),
+    time: 10,
+    request: {
+      method: "POST",
+      url: "https://example.com/api/login?email=ada@example.com",
+      httpVersion: "HTTP/1.1",
+      cookies: [{ name: "sid", value: "abc123" }],
+      headers: [
+        { name: "Authorization", value: "Bearer secret" },
+        { name: "Accept", value: "application/json" },
+      ],
+      queryString: [{ name: "email", value: "ada@example.com" }],
+      postData: {
+        mimeType: "application/x-www-form-urlencoded",
+        text: "user=ada&password=hunter2",
+        params: [
+          { name: "user", value: "ada" },
+          { name: "password", value: "hunter2" },
+        ],
+      },
+      headersSize: -1,
+      bodySize: 25,
+    },
+    response: {
+      status: 200,
+      statusText: "OK",
+      httpVersion: "HTTP/1.1",
+      cookies: [{ name: "sid", value: "def456" }],
+      headers: [{ name: "Set-Cookie", value: "sid=def456" }],
+      content: {
+        size: 60,
+        mimeType: "application/json",
+        text: '{"token": "t0k3n", "card": "4111 1111 1111 1111", "name": "Ada"}',
+      },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: 60,
+    },
+    cache: {},
+    timings: { send: 0, wait: 10, receive: 0 },
+  };
+}
+
+/**
+ * The entry a HAR replay serves for a request: routeFromHAR matches on
+ * method and URL, and on the body text for requests that have one
+ */
+function replayHar(har: Har, method: string, url: string, postData?: string): HarEntry | undefined {
+  return har.log.entries.find(
+    (entry) =>
+      entry.request.method === method &&
+      entry.request.url === url &&
+      entry.request.postData?.text === postData,
+  );
+}
+
+describe("Redactor", () => {
+  const redactor = new Redactor();
+
+  it("masks pattern matches and sensitive fields in traces", () => {
+    const trace = redactor.redactTrace({
+      ...interaction(0, "#password", "hunter2"),
+      before: {
+        dom: {
+          selector: "#password",
+          tagName: "input",
+          html: '<input type="password" id="password" value="hunter2">',
+          attributes: {},
+          text: "hunter2",
+        },
+        style: {},
+      } as any,
+    });
+
+    assert.equal(trace.event?.value, REDACTED);
+    assert.equal(trace.before?.dom.text, REDACTED);
+
+    const email = redactor.redactTrace(interaction(0, "#email", "ada@example.com"));
+    assert.equal(email.event?.value, REDACTED);
+  });
+
+  it("masks credential headers and body fields of network traces", () => {
+    const trace = redactor.redactTrace({
+      ...interaction(0, "form", ""),
+      network: [
+        {
+          id: "req-1",
+          url: "https://example.com/api",
+          method: "POST",
+          status: 200,
+          timing: 5,
+          startedAt: 0,
+          resourceType: "fetch",
+          requestHeaders: { cookie: "sid=abc", accept: "*/*" },
+          requestBody: {
+            mimeType: "application/json",
+            size: 35,
+            text: '{"user":"ada","password":"hunter2"}',
+          },
+        },
+      ],
+    });
+
+    const request = trace.network![0];
+    assert.equal(request.requestHeaders?.cookie, REDACTED);
+    assert.equal(request.requestHeaders?.accept, "*/*");
+    assert.equal(request.requestBody?.text, `{"user":"ada","password":"${REDACTED}"}`);
+  });
+
+  it("scrubs credentials from recorded HAR entries and keeps the rest", () => {
+    const entry = harEntry();
+    redactor.redactHarEntry(entry);
+
+    const { request, response } = entry;
+    assert.equal(request.url, harEntry().request.url);
+    assert.deepEqual(request.queryString, harEntry().request.queryString);
+    assert.deepEqual(request.headers, [
+      { name: "Authorization", value: REDACTED },
+      { name: "Accept", value: "application/json" },
+    ]);
+    assert.equal(request.cookies[0].value, REDACTED);
+    assert.equal(request.postData?.text, `user=ada&password=${encodeURIComponent(REDACTED)}`);
+    assert.deepEqual(request.postData?.params?.[1], { name: "password", value: REDACTED });
+    assert.equal(response.cookies[0].value, REDACTED);
+    assert.equal(response.headers[0].value, REDACTED);
+    assert.equal(
+      response.content.text,
+      `{"token": "${REDACTED}", "card": "4111 1111 1111 1111", "name": "Ada"}`,
+    );
+  });
+
+  it("masks only Luhn-valid card numbers", () => {
+    assert.equal(redactor.maskText("card 4111 1111 1111 1111"), `card ${REDACTED}`);
+    assert.equal(redactor.maskText("var MAX=9007199254740991"), "var MAX=9007199254740991");
+  });
+
+  it("keeps traced JSON bodies parseable", () => {
+    const trace = redactor.redactTrace({
+      ...interaction(0, "form", ""),
+      network: [
+        {
+          id: "req-1",
+          url: "https://example.com/api",
+          method: "GET",
+          status: 200,
+          timing: 5,
+          startedAt: 0,
+          resourceType: "fetch",
+          responseBody: {
+            mimeType: "application/json",
+            size: 50,
+            text: '{"id":9007199254740991,"email":"ada@example.com"}',
+          },
+        },
+      ],
+    });
+
+    assert.deepEqual(JSON.parse(trace.network![0].responseBody!.text!), {
+      id: 9007199254740991,
+      email: REDACTED,
+    });
+  });
+
+  it("leaves base64 content alone", () => {
+    const entry = harEntry();
+    entry.response.content = { size: 4, mimeType: "image/png", text: "iVBO", encoding: "base64" };
+    redactor.redactHarEntry(entry);
+
+    assert.equal(entry.response.content.text, "iVBO");
+  });
+});
+
+describe("redactSession", () => {
+  it("scrubs the traces and the recorded HAR", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "redact-"));
+    try {
+      const harFile = path.join(dir, "network.har");
+      const har: Har = {
+        log: {
+          version: "1.2",
+          creator: { name: "test", version: "1" },
+          pages: [],
+          entries: [harEntry()],
+        },
+      };
+      fs.writeFileSync(harFile, JSON.stringify(har));
+      fs.writeFileSync(
+        path.join(dir, "traces.jsonl"),
+        JSON.stringify(interaction(0, "#email", "ada@example.com")) + "\n",
+      );
+      fs.writeFileSync(
+        path.join(dir, "session.json"),
+        JSON.stringify({ traces: [], har: { mode: "record", file: harFile } }),
+      );
+
+      const result = await redactSession(dir, () => new Redactor());
+
+      assert.equal(result.traces, 1);
+      assert.deepEqual(result.hars, [harFile]);
+      assert.ok(!fs.readFileSync(path.join(dir, "traces.jsonl"), "utf-8").includes("ada@example.com"));
+      const scrubbed = fs.readFileSync(harFile, "utf-8");
+      assert.ok(!scrubbed.includes("hunter2"));
+      assert.ok(!scrubbed.includes("Bearer secret"));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps a recorded HAR replayable", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "redact-"));
+    try {
+      const script = harEntry();
+      script.request = {
+        ...script.request,
+        method: "GET",
+        url: "https://example.com/app.js?v=9007199254740991",
+        queryString: [{ name: "v", value: "9007199254740991" }],
+        postData: undefined,
+      };
+      script.response.content = {
+        size: 60,
+        mimeType: "application/javascript",
+        text: 'var MAX=9007199254740991;var token="t0k3n";var ADMIN="ops@example.com";',
+      };
+      const api = harEntry();
+      api.request = {
+        ...api.request,
+        method: "GET",
+        url: "https://example.com/api/user?email=ada@example.com",
+        postData: undefined,
+      };
+      api.response.content.text = '{"id":9007199254740991,"email":"ada@example.com"}';
+
+      const harFile = path.join(dir, "network.har");
+      const recorded: Har = {
+        log: {
+          version: "1.2",
+          creator: { name: "test", version: "1" },
+          pages: [],
+          entries: [script, api, harEntry()],
+        },
+      };
+      fs.writeFileSync(harFile, JSON.stringify(recorded));
+
+      assert.equal(await redactHar(harFile, new Redactor()), true);
+      const replayed: Har = JSON.parse(fs.readFileSync(harFile, "utf-8"));
+
+      // Requests without credential fields are served the recorded bodies
+      for (const entry of [script, api]) {
+        const match = replayHar(replayed, entry.request.method, entry.request.url);
+        assert.equal(match?.response.content.text, entry.response.content.text);
+      }
+      assert.deepEqual(
+        JSON.parse(replayHar(replayed, "GET", api.request.url)!.response.content.text!),
+        { id: 9007199254740991, email: "ada@example.com" },
+      );
+
+      // The login request is matched by its redacted body
+      const login = replayHar(
+        replayed,
+        "POST",
+        harEntry().request.url,
+        `user=ada&password=${encodeURIComponent(REDACTED)}`,
+      );
+      assert.equal(JSON.parse(login!.response.content.text!).token, REDACTED);
+      assert.ok(!JSON.stringify(replayed).includes("hunter2"));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("interactionsToFlow", () => {
+  it("focuses fields whose recorded value was masked instead of typing the mask", () => {
+    const flow = interactionsToFlow([
+      interaction(0, "#user", "a"),
+      interaction(50, "#user", "ada"),
+      interaction(500, "#password", REDACTED),
+      interaction(550, "#password", REDACTED),
+    ]);
+    const steps = flow.steps.filter((step) => step.action !== "wait");
+
+    assert.deepEqual(steps, [
+      { action: "fill", selector: "#user", value: "ada" },
+      { action: "focus", selector: "#password" },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateFlow } from "../src/flow-runner";
+import { formatKeyLabel } from "../src/keys";
+import { interactionsToFlow } from "../src/replay";
+import { KeyModifiers, TraceRecord } from "../src/types";
+
+const NONE: KeyModifiers = { ctrl: false, alt: false, shift: false, meta: false };
+
+function keydown(ts: number, key: string, modifiers: Partial<KeyModifiers> = {}): TraceRecord {
+  return {
+    ts,
+    type: "interaction",
+    sessionId: "session_test",
+    url: "https://example.com",
+    viewport: { width: 1280, height: 720 },
+    event: { kind: "keydown", selector: "body", key, modifiers: { ...NONE, ...modifiers } },
+  };
+}
+
+describe("interactionsToFlow", () => {
+  it("presses recorded keys in their recorded case", () => {
+    const flow = validateFlow(
+      JSON.parse(
+        JSON.stringify(
+          interactionsToFlow([
+            keydown(0, "a"),
+            keydown(500, "A", { shift: true }),
+            keydown(1000, "k", { meta: true }),
+          ]),
+        ),
+      ),
+    );
+    const keys = flow.steps.flatMap((step) => (step.action === "press" ? [step.key] : []));
+
+    assert.deepEqual(keys, ["a", "Shift+A", "Meta+k"]);
+  });
+
+  it("labels a shortcut the same whatever the key's case", () => {
+    assert.equal(formatKeyLabel("k", { ...NONE, meta: true }), "Meta+K");
+    assert.equal(formatKeyLabel("K", { ...NONE, meta: true }), "Meta+K");
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TraceWriter } from "../src/trace-writer";
+
+describe("TraceWriter.generateSummary", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "trace-writer-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("describes the device as the capture logs and exports do", () => {
+    const writer = new TraceWriter(dir, "session_test", "https://example.com");
+    writer.setEmulation({
+      viewport: { width: 1280, height: 720 },
+      deviceScaleFactor: 2,
+      isMobile: false,
+      hasTouch: false,
+      userAgent: "test",
+    });
+
+    const lines = writer.generateSummary().split("\n");
+
+    assert.ok(lines.includes("**Device**: custom viewport (1280x720 @2x, desktop)"));
+  });
+});
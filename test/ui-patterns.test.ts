@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DOMDiff, DOMNode } from "../src/dom-diff";
+import { EffectChainBuilder } from "../src/effect-chains";
+import { TraceRecord } from "../src/types";
+import { UIPatternRecognizer } from "../src/ui-patterns";
+
+function node(
+  tag: string,
+  attributes: Record<string, string> = {},
+  classes: string[] = [],
+): DOMNode {
+  return { tag, attributes, classes };
+}
+
+/** Items appended to ul.feed at the given (1-based) positions */
+function appended(positions: number[]): DOMDiff[] {
+  return positions.map((at) => ({
+    type: "add",
+    path: `main > ul.feed > li:nth-of-type(${at})`,
+    node: node("li"),
+  }));
+}
+
+describe("UIPatternRecognizer", () => {
+  const recognizer = new UIPatternRecognizer();
+
+  it("recognizes a dropdown opened by its toggle", () => {
+    const match = recognizer.recognize({
+      diffs: [
+        {
+          type: "modify",
+          path: "button.toggle",
+          node: node("button", { "aria-haspopup": "true" }),
+          changes: { attributes: { "aria-expanded": { from: "false", to: "true" } } },
+        },
+        {
+          type: "modify",
+          path: "ul.dropdown-menu",
+          node: node("ul", {}, ["dropdown-menu", "show"]),
+          changes: { classes: { added: ["show"], removed: [] } },
+        },
+      ],
+    });
+
+    assert.deepEqual(match, { pattern: "dropdown", action: "open", target: "ul.dropdown-menu" });
+  });
+
+  it("reads a live region as a toast only when it comes or goes", () => {
+    const region = node("div", { "aria-live": "polite" });
+    const added: DOMDiff = { type: "add", path: "div.notice", node: region };
+
+    assert.deepEqual(recognizer.recognize({ diffs: [added] }), {
+      pattern: "toast",
+      action: "show",
+      target: "div.notice",
+    });
+    assert.equal(
+      recognizer.recognize({
+        diffs: [
+          {
+            type: "modify",
+            path: "p.results",
+            node: node("p", { role: "status", "aria-live": "polite" }),
+            changes: { text: { from: "3 results", to: "5 results" } },
+          },
+        ],
+      }),
+      null,
+    );
+  });
+
+  it("reads appended items as infinite scroll only after a request or scroll", () => {
+    const diffs = appended([21, 22, 23]);
+
+    assert.equal(recognizer.recognize({ diffs }), null);
+    assert.deepEqual(recognizer.recognize({ diffs, loadedMore: true }), {
+      pattern: "infinite-scroll",
+      action: "append",
+      target: "main > ul.feed",
+    });
+  });
+
+  it("needs the items to follow the existing ones in one run", () => {
+    // A first render starts the list
+    assert.equal(recognizer.recognize({ diffs: appended([1, 2, 3]), loadedMore: true }), null);
+    // Items inserted here and there
+    assert.equal(recognizer.recognize({ diffs: appended([4, 9, 15]), loadedMore: true }), null);
+    // Elements addressed by id say nothing about their position
+    assert.equal(
+      recognizer.recognize({
+        diffs: [1, 2, 3].map((i) => ({ type: "add", path: `li#post-${i}`, node: node("li") })),
+        loadedMore: true,
+      }),
+      null,
+    );
+  });
+});
+
+describe("EffectChainBuilder patterns", () => {
+  const base = {
+    sessionId: "session_test",
+    url: "https://example.com",
+    viewport: { width: 1, height: 1 },
+  };
+
+  function feedSession(withRequest: boolean): TraceRecord[] {
+    const traces: TraceRecord[] = [
+      { ...base, ts: 1000, type: "interaction", event: { kind: "click", selector: "button.more" } },
+      {
+        ...base,
+        ts: 1400,
+        type: "mutation",
+        mutation: {
+          intent: "content-update",
+          summary: "",
+          affectedElements: 3,
+          changes: appended([11, 12, 13]),
+        },
+      },
+    ];
+    if (withRequest) {
+      traces.push({
+        ...base,
+        ts: 1300,
+        type: "network",
+        network: [
+          {
+            id: "req-1",
+            url: "https://example.com/api/feed?page=2",
+            method: "GET",
+            status: 200,
+            timing: 200,
+            startedAt: 1100,
+            resourceType: "fetch",
+          },
+        ],
+      });
+    }
+    return traces;
+  }
+
+  it("recognizes a feed page loaded by a request", () => {
+    const [chain] = new EffectChainBuilder().build(feedSession(true));
+    assert.equal(chain.pattern?.pattern, "infinite-scroll");
+  });
+
+  it("does not read appended items without a request or scroll as a feed", () => {
+    const [chain] = new EffectChainBuilder().build(feedSession(false));
+    assert.equal(chain.pattern, undefined);
+  });
+});